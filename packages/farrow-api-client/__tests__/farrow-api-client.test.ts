@@ -93,10 +93,26 @@ const triggerError = Api(
   },
 )
 
+const triggerDeclaredError = Api(
+  {
+    input: {},
+    output: {},
+    errors: {
+      TooLarge: {
+        max: Int,
+      },
+    },
+  },
+  () => {
+    throw triggerDeclaredError.error('TooLarge', { max: 10 }, 'count is too large')
+  },
+)
+
 const entries = {
   getCount,
   setCount,
   triggerError,
+  triggerDeclaredError,
 }
 
 const CounterService = ApiService({
@@ -195,6 +211,16 @@ describe('farrow-api-client', () => {
     }
   })
 
+  it('should reject with code and payload of declared errors', async () => {
+    await expect(loader({ path: ['triggerDeclaredError'], input: {} })).rejects.toMatchObject({
+      message: 'count is too large',
+      code: 'TooLarge',
+      payload: { max: 10 },
+    })
+
+    await expect(loader({ path: ['triggerError'], input: {} })).rejects.not.toHaveProperty('code')
+  })
+
   it('should response error if input is not valid', async () => {
     try {
       await loader({
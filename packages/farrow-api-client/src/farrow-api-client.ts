@@ -1,4 +1,5 @@
 import type {
+  ApiErrorResponse,
   Calling,
   SingleCalling,
   BatchCalling,
@@ -43,6 +44,19 @@ export type ApiClientLoaderFetcherOptions = Omit<ApiClientLoaderOptions, 'batch'
 
 export type Fetcher = (input: Calling, options: ApiClientLoaderFetcherOptions) => Promise<Response | JsonType>
 
+/**
+ * the error of ApiErrorResponse, code and payload exist when the api raised an error declared in its definition
+ */
+export type ApiClientError = Error & {
+  code?: string
+  payload?: JsonType
+}
+
+export const createApiClientError = (error: ApiErrorResponse['error']): ApiClientError => {
+  const { message, ...rest } = error
+  return Object.assign(new Error(message), rest)
+}
+
 export const isResponse = (value: any): value is Response => {
   return typeof value?.json === 'function' && typeof value?.text === 'function'
 }
@@ -124,7 +138,7 @@ export const createLoader = <T extends Fetcher = Fetcher>(source: string | T, op
 
   const handleSingleResponse = (response: ApiSingleResponse): Promise<JsonType> => {
     if (response.type === 'ApiErrorResponse') {
-      return Promise.reject(new Error(response.error.message))
+      return Promise.reject(createApiClientError(response.error))
     }
 
     return Promise.resolve(response.output)
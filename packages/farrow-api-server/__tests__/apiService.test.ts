@@ -1,9 +1,10 @@
 import request from 'supertest'
-import { Int, Literal, ObjectType, Type } from 'farrow-schema'
+import { Int, List, Literal, ObjectType, ReadOnlyDeep, Type, Transform } from 'farrow-schema'
+import { AsyncValidatorType } from 'farrow-schema/validator'
 import { Http, HttpPipelineOptions } from 'farrow-http'
-import { Api } from 'farrow-api'
+import { Api, ApiError, withMiddleware } from 'farrow-api'
 import fetch from 'node-fetch'
-import { ApiService } from '../src/apiService'
+import { ApiService, useApiCalling } from '../src/apiService'
 
 let portUid = 3000
 
@@ -238,6 +239,59 @@ describe('ApiService', () => {
     await request(server).get('/counter/__introspection__').expect(404)
   })
 
+  it('supports hiding internal apis from untrusted requests', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    const resetCount = Api(
+      {
+        input: {},
+        output: Int,
+        internal: true,
+      },
+      () => 0,
+    )
+
+    http.route('/internal').use(
+      ApiService({
+        entries: {
+          getCount,
+          resetCount,
+        },
+        errorStack: false,
+        trusted: (request) => request.headers?.['x-token'] === 'secret',
+      }),
+    )
+
+    const untrusted = await request(server).get('/internal/__introspection__').expect(200)
+    const trusted = await request(server).get('/internal/__introspection__').set('x-token', 'secret').expect(200)
+
+    expect(Object.keys(untrusted.body.entries.entries)).toEqual(['getCount'])
+    expect(Object.keys(trusted.body.entries.entries)).toEqual(['getCount', 'resetCount'])
+    expect(trusted.body.entries.entries.resetCount.internal).toBe(true)
+
+    const calling = {
+      type: 'Single',
+      path: ['resetCount'],
+      input: {},
+    }
+
+    await request(server)
+      .post('/internal')
+      .send(calling)
+      .expect(200, {
+        type: 'ApiErrorResponse',
+        error: {
+          message: 'The target API was not found with the path: ["resetCount"]',
+        },
+      })
+
+    await request(server).post('/internal').set('x-token', 'secret').send(calling).expect(200, {
+      type: 'ApiSingleSuccessResponse',
+      output: 0,
+    })
+  })
+
   it('supports calling api', async () => {
     const http = createHttp()
     const server = http.server()
@@ -745,4 +799,493 @@ describe('ApiService', () => {
       server.close(resolve)
     })
   })
+
+  it('supports encoding output via Transform', async () => {
+    const BigIntString = Transform(String, {
+      decode: (input) => BigInt(input),
+      encode: (value) => value.toString(),
+    })
+
+    const double = Api(
+      {
+        input: {
+          value: BigIntString,
+        },
+        output: {
+          value: BigIntString,
+        },
+      },
+      (input) => {
+        return {
+          value: input.value * BigInt(2),
+        }
+      },
+    )
+
+    const http = createHttp()
+    const server = http.server()
+
+    http.route('/bigint').use(ApiService({ entries: { double } }))
+
+    await request(server)
+      .post('/bigint')
+      .send({
+        type: 'Single',
+        path: ['double'],
+        input: {
+          value: '9007199254740993',
+        },
+      })
+      .expect(200, {
+        type: 'ApiSingleSuccessResponse',
+        output: {
+          value: '18014398509481986',
+        },
+      })
+  })
+
+  it('supports validating by compiled validators', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    http.route('/compiled').use(
+      ApiService({
+        entries,
+        errorStack: false,
+        validation: {
+          compile: true,
+        },
+      }),
+    )
+
+    await request(server)
+      .post('/compiled')
+      .send({
+        type: 'Single',
+        path: ['setCount'],
+        input: {
+          newCount: 10,
+        },
+      })
+      .expect(200, {
+        type: 'ApiSingleSuccessResponse',
+        output: {
+          from: 'setCount',
+          count: 10,
+        },
+      })
+
+    await request(server)
+      .post('/compiled')
+      .send({
+        type: 'Single',
+        path: ['setCount'],
+        input: {
+          newCount: '10',
+        },
+      })
+      .expect(200, {
+        type: 'ApiErrorResponse',
+        error: {
+          message: 'path: ["newCount"]\n10 is not an integer',
+        },
+      })
+  })
+
+  it('supports freezing read-only inputs', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    const sort = Api(
+      {
+        input: {
+          list: ReadOnlyDeep(List(Int)),
+        },
+        output: {
+          list: List(Int),
+        },
+      },
+      (input) => {
+        return {
+          list: (input.list as number[]).sort(),
+        }
+      },
+    )
+
+    for (const compile of [false, true]) {
+      http.route(`/freeze-${compile}`).use(
+        ApiService({
+          entries: { sort },
+          errorStack: false,
+          validation: {
+            compile,
+            freeze: true,
+          },
+        }),
+      )
+
+      await request(server)
+        .post(`/freeze-${compile}`)
+        .send({
+          type: 'Single',
+          path: ['sort'],
+          input: {
+            list: [2, 1],
+          },
+        })
+        .expect(200, {
+          type: 'ApiErrorResponse',
+          error: {
+            message: "Cannot assign to read only property '0' of object '[object Array]'",
+          },
+        })
+    }
+  })
+
+  it('supports responding declared errors with code and payload', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    const getUser = Api(
+      {
+        input: {
+          id: Int,
+        },
+        output: {
+          name: String,
+        },
+        errors: {
+          NotFound: {
+            id: Int,
+          },
+        },
+      },
+      async (input) => {
+        if (input.id === 0) {
+          throw getUser.error('NotFound', { id: 'abc' as unknown as number })
+        }
+
+        if (input.id === 1) {
+          throw new ApiError('Forbidden', {})
+        }
+
+        throw getUser.error('NotFound', { id: input.id }, `user ${input.id} was not found`)
+      },
+    )
+
+    http.route('/errors').use(
+      ApiService({
+        entries: { getUser },
+        errorStack: false,
+      }),
+    )
+
+    const getResponse = (id: number) => {
+      return request(server)
+        .post('/errors')
+        .send({
+          type: 'Single',
+          path: ['getUser'],
+          input: { id },
+        })
+    }
+
+    await getResponse(2).expect(200, {
+      type: 'ApiErrorResponse',
+      error: {
+        message: 'user 2 was not found',
+        code: 'NotFound',
+        payload: { id: 2 },
+      },
+    })
+
+    // payload is validated like output
+    await getResponse(0).expect(200, {
+      type: 'ApiErrorResponse',
+      error: {
+        message: 'path: ["id"]\nabc is not an integer',
+      },
+    })
+
+    // undeclared errors are responded as the other errors
+    await getResponse(1).expect(200, {
+      type: 'ApiErrorResponse',
+      error: {
+        message: 'Forbidden',
+      },
+    })
+  })
+
+  it('responds the defaults of output and payload fields', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    const getUser = Api(
+      {
+        input: {
+          id: Int,
+        },
+        output: {
+          name: String,
+          role: {
+            [Type]: String,
+            default: 'user',
+          },
+        },
+        errors: {
+          NotFound: {
+            id: Int,
+            reason: {
+              [Type]: String,
+              default: 'missing',
+            },
+          },
+        },
+      },
+      // the impl leaves the fields with defaults undefined, like the ones read from an old record
+      (input) => {
+        if (input.id === 0) {
+          throw getUser.error('NotFound', { id: 0 } as { id: number; reason: string })
+        }
+
+        return { name: 'a' } as { name: string; role: string }
+      },
+    )
+
+    http.route('/defaults').use(
+      ApiService({
+        entries: { getUser },
+        errorStack: false,
+      }),
+    )
+
+    const getResponse = (id: number) => {
+      return request(server)
+        .post('/defaults')
+        .send({
+          type: 'Single',
+          path: ['getUser'],
+          input: { id },
+        })
+    }
+
+    await getResponse(1).expect(200, {
+      type: 'ApiSingleSuccessResponse',
+      output: {
+        name: 'a',
+        role: 'user',
+      },
+    })
+
+    await getResponse(0).expect(200, {
+      type: 'ApiErrorResponse',
+      error: {
+        message: 'NotFound',
+        code: 'NotFound',
+        payload: { id: 0, reason: 'missing' },
+      },
+    })
+  })
+
+  it('supports validating by async validators', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    class NewCount extends AsyncValidatorType<number> {
+      async validateAsync(input: unknown) {
+        await delay(1)
+
+        if (typeof input === 'number' && input >= 0) {
+          return this.Ok(input)
+        }
+
+        return this.Err(`${input} is not a valid count`)
+      }
+    }
+
+    const setAsyncCount = Api(
+      {
+        input: {
+          newCount: NewCount,
+        },
+        output: {
+          count: NewCount,
+        },
+      },
+      (input) => {
+        return {
+          count: input.newCount === 1 ? -1 : input.newCount,
+        }
+      },
+    )
+
+    http.route('/async').use(
+      ApiService({
+        entries: {
+          setAsyncCount,
+        },
+        errorStack: false,
+      }),
+    )
+
+    await request(server)
+      .post('/async')
+      .send({
+        type: 'Single',
+        path: ['setAsyncCount'],
+        input: {
+          newCount: 10,
+        },
+      })
+      .expect(200, {
+        type: 'ApiSingleSuccessResponse',
+        output: {
+          count: 10,
+        },
+      })
+
+    await request(server)
+      .post('/async')
+      .send({
+        type: 'Single',
+        path: ['setAsyncCount'],
+        input: {
+          newCount: -10,
+        },
+      })
+      .expect(200, {
+        type: 'ApiErrorResponse',
+        error: {
+          message: 'path: ["newCount"]\n-10 is not a valid count',
+        },
+      })
+
+    await request(server)
+      .post('/async')
+      .send({
+        type: 'Single',
+        path: ['setAsyncCount'],
+        input: {
+          newCount: 1,
+        },
+      })
+      .expect(200, {
+        type: 'ApiErrorResponse',
+        error: {
+          message: 'path: ["count"]\n-1 is not a valid count',
+        },
+      })
+  })
+
+  it('supports accessing calling and request in middlewares and apis', async () => {
+    const http = createHttp()
+    const server = http.server()
+
+    const getCallingPath = Api(
+      {
+        input: {},
+        output: {
+          path: List(String),
+          user: String,
+        },
+      },
+      () => {
+        const { calling, request } = useApiCalling()
+        return {
+          path: calling.path,
+          user: String(request.headers?.['x-user']),
+        }
+      },
+    )
+
+    const entries = withMiddleware(
+      {
+        getCallingPath,
+        nested: {
+          getCallingPath,
+        },
+      },
+      (input, next) => {
+        const { request } = useApiCalling()
+
+        if (!request.headers?.['x-user']) {
+          throw new Error('Unauthorized')
+        }
+
+        return next(input)
+      },
+    )
+
+    http.route('/calling').use(
+      ApiService({
+        entries,
+        errorStack: false,
+      }),
+    )
+
+    const callings = [
+      { type: 'Single', path: ['getCallingPath'], input: {} },
+      { type: 'Single', path: ['nested', 'getCallingPath'], input: {} },
+    ]
+
+    await request(server)
+      .post('/calling')
+      .send(callings[0])
+      .expect(200, {
+        type: 'ApiErrorResponse',
+        error: {
+          message: 'Unauthorized',
+        },
+      })
+
+    await request(server)
+      .post('/calling')
+      .set('x-user', 'farrow')
+      .send({ type: 'Batch', callings })
+      .expect(200, {
+        type: 'ApiBatchSuccessResponse',
+        result: [
+          {
+            type: 'ApiSingleSuccessResponse',
+            output: { path: ['getCallingPath'], user: 'farrow' },
+          },
+          {
+            type: 'ApiSingleSuccessResponse',
+            output: { path: ['nested', 'getCallingPath'], user: 'farrow' },
+          },
+        ],
+      })
+
+    const port = portUid++
+
+    await new Promise<void>((resolve) => {
+      server.listen(port, resolve)
+    })
+
+    const response = await fetch(`http://localhost:${port}/calling`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user': 'farrow',
+      },
+      body: JSON.stringify({ type: 'Stream', callings }),
+    })
+
+    const text = await response.text()
+    const outputs = text
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.output)
+
+    expect(outputs).toEqual([
+      { path: ['getCallingPath'], user: 'farrow' },
+      { path: ['nested', 'getCallingPath'], user: 'farrow' },
+    ])
+
+    await new Promise((resolve) => {
+      server.close(resolve)
+    })
+  })
 })
@@ -22,13 +22,25 @@ export type ApiErrorResponse = {
   type: 'ApiErrorResponse'
   error: {
     message: string
+    /**
+     * the code of the error declared in api definition, absent for other errors
+     */
+    code?: string
+    payload?: JsonType
   }
 }
 
-export const ApiErrorResponse = (message: string): ApiErrorResponse => {
+export const ApiErrorResponse = (message: string, code?: string, payload?: JsonType): ApiErrorResponse => {
+  if (code === undefined) {
+    return {
+      type: 'ApiErrorResponse',
+      error: { message },
+    }
+  }
+
   return {
     type: 'ApiErrorResponse',
-    error: { message },
+    error: { message, code, payload },
   }
 }
 
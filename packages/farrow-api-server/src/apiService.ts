@@ -1,8 +1,27 @@
 import { Router, Response, RouterPipeline, RequestInfo } from 'farrow-http'
-import { List, SchemaCtor, SchemaCtorInput, Struct, toSchemaCtor, Any, Literal, Union, JsonType } from 'farrow-schema'
-import { ApiDefinition, ApiEntries, getContentType, isApi } from 'farrow-api'
+import { createContext, createContainer, useContainer, Container } from 'farrow-pipeline'
+import {
+  List,
+  SchemaCtor,
+  SchemaCtorInput,
+  Struct,
+  toSchemaCtor,
+  Any,
+  Literal,
+  TaggedUnion,
+  JsonType,
+} from 'farrow-schema'
+import { ApiDefinition, ApiEntries, getContentType, isApi, isApiError } from 'farrow-api'
 import { toJSON } from 'farrow-api/dist/toJSON'
-import { createSchemaValidator, ValidationError, Validator } from 'farrow-schema/validator'
+import {
+  createSchemaValidator,
+  createAsyncSchemaValidator,
+  ValidationError,
+  Validator,
+  AsyncValidator,
+} from 'farrow-schema/validator'
+import { encode } from 'farrow-schema/encoder'
+import { compileValidator } from 'farrow-schema/compiler'
 import get from 'lodash.get'
 import {
   ApiErrorResponse,
@@ -18,6 +37,32 @@ import {
 
 export type ApiServiceType = RouterPipeline
 
+export type ApiCallingInfo = {
+  /**
+   * the single calling being handled, it is one of the callings of batch calling or stream calling if any
+   */
+  calling: SingleCalling
+  /**
+   * the request carrying the calling
+   */
+  request: RequestInfo
+}
+
+const ApiCallingContext = createContext<ApiCallingInfo | null>(null)
+
+/**
+ * get the calling and request of the api being called, it works in the apis and middlewares served by ApiService
+ */
+export const useApiCalling = () => {
+  const apiCalling = ApiCallingContext.get()
+
+  if (!apiCalling) {
+    throw new Error(`Expected api calling, but got: ${apiCalling}`)
+  }
+
+  return apiCalling
+}
+
 const SingleCallingSchema = Struct({
   type: Literal('Single'),
   path: List(String),
@@ -34,7 +79,11 @@ const StreamCallingSchema = Struct({
   callings: List(SingleCallingSchema),
 })
 
-const CallingSchema = Union(SingleCallingSchema, BatchCallingSchema, StreamCallingSchema)
+const CallingSchema = TaggedUnion('type', {
+  Single: SingleCallingSchema,
+  Batch: BatchCallingSchema,
+  Stream: StreamCallingSchema,
+})
 
 const validateCalling = createSchemaValidator(CallingSchema)
 
@@ -55,8 +104,23 @@ export type CreateApiServiceOptions = {
   validation?: {
     input?: boolean
     output?: boolean
+    /**
+     * use validators generated by compileValidator, which are faster for large payloads
+     * default: false
+     */
+    compile?: boolean
+    /**
+     * freeze the values of ReadOnly/ReadOnlyDeep schemas, so impls can not mutate read-only inputs
+     * default: false
+     */
+    freeze?: boolean
   }
   stream?: boolean
+  /**
+   * the apis marked as internal are only introspected and called by trusted requests
+   * default: no request is trusted
+   */
+  trusted?: (request: RequestInfo) => boolean
   onSuccess?: (input: SingleCalling, output: JsonType) => void
   onError?: (input: SingleCalling, message: string) => void
 }
@@ -72,20 +136,42 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
 
   const router = Router()
 
-  const validatorMap = new WeakMap<SchemaCtor, Validator>()
+  const validatorMap = new WeakMap<SchemaCtor, Validator | AsyncValidator>()
+
+  const createValidator = (Schema: SchemaCtor) => {
+    // the schemas containing async parts can only be validated asynchronously
+    const validatorOptions = { freeze: config.validation?.freeze }
+    if (Validator.isAsync(Schema)) {
+      return createAsyncSchemaValidator(Schema, validatorOptions)
+    }
+    return config.validation?.compile
+      ? compileValidator(Schema, validatorOptions)
+      : createSchemaValidator(Schema, validatorOptions)
+  }
 
   const getValidator = (Schema: SchemaCtor) => {
     if (validatorMap.has(Schema)) {
       return validatorMap.get(Schema)!
     }
-    const validator = createSchemaValidator(Schema)
+    const validator = createValidator(Schema)
     validatorMap.set(Schema, validator)
     return validator
   }
 
+  const isTrusted = (request: RequestInfo) => {
+    return config.trusted?.(request) ?? false
+  }
+
   let formatResultJSON = ''
+  let publicFormatResultJSON = ''
 
-  const getIntrospection = () => {
+  const getIntrospection = (trusted: boolean) => {
+    if (!trusted) {
+      if (!publicFormatResultJSON) {
+        publicFormatResultJSON = JSON.stringify(toJSON(entries, { internal: false }), null, 2)
+      }
+      return publicFormatResultJSON
+    }
     if (formatResultJSON) {
       return formatResultJSON
     }
@@ -111,7 +197,7 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
   router.use((request, next) => {
     if (isIntrospectionRequest(request)) {
       if (config.introspection) {
-        return Response.type('json').string(getIntrospection())
+        return Response.type('json').string(getIntrospection(isTrusted(request)))
       }
 
       return Response.status(404).text('Not Found.')
@@ -120,10 +206,15 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
     return next()
   })
 
-  const handleSingleCalling = async (singleCalling: SingleCalling): Promise<ApiSingleResponse> => {
+  const handleSingleCalling = async (
+    singleCalling: SingleCalling,
+    request: RequestInfo,
+    container: Container,
+  ): Promise<ApiSingleResponse> => {
     const api = get(entries, singleCalling.path)
 
-    if (!isApi(api)) {
+    // internal apis are not found by untrusted requests
+    if (!isApi(api) || (api.definition.internal && !isTrusted(request))) {
       const message = `The target API was not found with the path: [${singleCalling.path
         .map((item) => `"${item}"`)
         .join(', ')}]`
@@ -144,7 +235,7 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
      * validate input
      */
     if (config.validation?.input !== false) {
-      const inputResult = validateApiInput(singleCalling.input)
+      const inputResult = await validateApiInput(singleCalling.input)
 
       if (inputResult.isErr) {
         const message = getErrorMessage(inputResult.value)
@@ -156,23 +247,41 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
     }
 
     try {
-      let output = await api(input)
+      const OutputSchema = toSchemaCtor(getContentType(definition.output))
+
+      /**
+       * every calling runs in its own container, so batch callings see their own calling
+       */
+      const callingContainer = createContainer(
+        {
+          apiCalling: ApiCallingContext.create({ calling: singleCalling, request }),
+        },
+        container,
+      )
+
+      /**
+       * encode output to the wire value
+       */
+      let output = encode(OutputSchema, await api.run(input, { container: callingContainer })) as JsonType
 
       if (config.validation?.output !== false) {
-        const OutputSchema = toSchemaCtor(getContentType(definition.output))
         const validateApiOutput = getValidator(OutputSchema)
 
         /**
          * validate output
          */
-        const outputResult = validateApiOutput(output)
+        const outputResult = await validateApiOutput(output)
 
         if (outputResult.isErr) {
           const message = getErrorMessage(outputResult.value)
           config.onError?.(singleCalling, message)
           return ApiErrorResponse(message)
         }
-        output = outputResult.value
+
+        /**
+         * respond the validated output, which carries the defaults of fields
+         */
+        output = encode(OutputSchema, outputResult.value) as JsonType
       }
 
       config.onSuccess?.(singleCalling, output)
@@ -181,22 +290,52 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
        */
       return ApiSingleSuccessResponse(output)
     } catch (error: any) {
+      const errors = definition.errors
+
+      /**
+       * respond the declared errors with their codes and payloads
+       */
+      if (isApiError(error) && errors && Object.prototype.hasOwnProperty.call(errors, error.code)) {
+        const PayloadSchema = toSchemaCtor(getContentType(errors[error.code]))
+
+        let payload = encode(PayloadSchema, error.payload) as JsonType
+
+        if (config.validation?.output !== false) {
+          const payloadResult = await getValidator(PayloadSchema)(payload)
+
+          if (payloadResult.isErr) {
+            const message = getErrorMessage(payloadResult.value)
+            config.onError?.(singleCalling, message)
+            return ApiErrorResponse(message)
+          }
+
+          payload = encode(PayloadSchema, payloadResult.value) as JsonType
+        }
+
+        config.onError?.(singleCalling, error.message)
+        return ApiErrorResponse(error.message, error.code, payload)
+      }
+
       const message = (config.errorStack ? error?.stack || error?.message : error?.message) ?? ''
       config.onError?.(singleCalling, message)
       return ApiErrorResponse(message)
     }
   }
 
-  const handleBatchCalling = async (batchCalling: BatchCalling): Promise<ApiBatchResponse> => {
+  const handleBatchCalling = async (
+    batchCalling: BatchCalling,
+    request: RequestInfo,
+    container: Container,
+  ): Promise<ApiBatchResponse> => {
     // batch calling
     const callings = batchCalling.callings
 
-    const result = await Promise.all(callings.map(handleSingleCalling))
+    const result = await Promise.all(callings.map((calling) => handleSingleCalling(calling, request, container)))
 
     return ApiBatchSuccessResponse(result)
   }
 
-  const handleStreamCalling = async (streamCalling: StreamCalling) => {
+  const handleStreamCalling = async (streamCalling: StreamCalling, request: RequestInfo, container: Container) => {
     // stream callings
     const callings = streamCalling.callings
 
@@ -210,7 +349,7 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
 
       await Promise.all(
         callings.map(async (calling, index) => {
-          const result = await handleSingleCalling(calling)
+          const result = await handleSingleCalling(calling, request, container)
           body += JSON.stringify(ApiStreamSingleResponse(index, result)) + '\n'
         }),
       )
@@ -229,7 +368,7 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
 
       await Promise.all(
         callings.map(async (calling, index) => {
-          const result = await handleSingleCalling(calling)
+          const result = await handleSingleCalling(calling, request, container)
           send(ApiStreamSingleResponse(index, result))
         }),
       )
@@ -239,6 +378,7 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
   }
 
   router.use(async (request) => {
+    const container = useContainer()
     const payload = request.method?.toLowerCase() === 'get' ? request.query : request.body
     const callingResult = validateCalling(payload)
 
@@ -250,13 +390,13 @@ export const createApiService = (options: CreateApiServiceOptions): ApiServiceTy
     const calling = callingResult.value
 
     if (calling.type === 'Batch') {
-      const result = await handleBatchCalling(calling)
+      const result = await handleBatchCalling(calling, request, container)
       return Response.json(result)
     } else if (calling.type === 'Stream') {
-      return handleStreamCalling(calling)
+      return handleStreamCalling(calling, request, container)
     }
 
-    const result = await handleSingleCalling(calling)
+    const result = await handleSingleCalling(calling, request, container)
     return Response.json(result)
   })
 
@@ -1,5 +1,13 @@
-import { Int, Type } from 'farrow-schema'
-import { Api, isApi, getContentType, getTypeDescription, getTypeDeprecated } from '../src/api'
+import { Int, Type, Struct } from 'farrow-schema'
+import {
+  Api,
+  isApi,
+  isApiError,
+  getContentType,
+  getTypeDescription,
+  getTypeDeprecated,
+  withMiddleware,
+} from '../src/api'
 
 describe('Api', () => {
   it('supports Typeable', async () => {
@@ -48,4 +56,131 @@ describe('Api', () => {
 
     expect(deprecated).toEqual('test deprecated')
   })
+
+  it('supports creating declared errors', async () => {
+    const getUser = Api(
+      {
+        input: { id: Int },
+        output: { name: String },
+        errors: {
+          NotFound: Struct({ id: Int }),
+          Forbidden: {
+            [Type]: Struct({ reason: String }),
+            description: 'no permission',
+          },
+        },
+      },
+      async (input) => {
+        throw getUser.error('NotFound', { id: input.id }, `user ${input.id} was not found`)
+      },
+    )
+
+    const error = getUser.error('Forbidden', { reason: 'banned' })
+
+    expect(isApiError(error)).toBe(true)
+    expect(isApiError(new Error('Forbidden'))).toBe(false)
+    expect(error).toMatchObject({ code: 'Forbidden', payload: { reason: 'banned' }, message: 'Forbidden' })
+
+    await expect(getUser({ id: 1 })).rejects.toMatchObject({
+      code: 'NotFound',
+      payload: { id: 1 },
+      message: 'user 1 was not found',
+    })
+
+    // @ts-expect-error
+    expect(() => getUser.error('Unknown', {})).toThrow('Unknown error code of api: Unknown')
+  })
+
+  it('supports applying middlewares to entries', async () => {
+    const calls: string[] = []
+
+    const incre = Api(
+      {
+        input: Int,
+        output: Int,
+      },
+      (input) => {
+        calls.push('incre')
+        return input + 1
+      },
+    )
+
+    const decre = Api(
+      {
+        input: Int,
+        output: Int,
+      },
+      (input) => {
+        calls.push('decre')
+        return input - 1
+      },
+    )
+
+    const entries = withMiddleware(
+      {
+        incre,
+        nested: {
+          decre,
+        },
+      },
+      async (input, next) => {
+        calls.push('before')
+        const output = await next(typeof input === 'number' ? input * 10 : input)
+        calls.push('after')
+        return output
+      },
+    )
+
+    expect(isApi(entries.incre)).toBe(true)
+    expect(entries.incre.definition).toBe(incre.definition)
+
+    expect(await entries.incre(1)).toBe(11)
+    expect(await entries.nested.decre(1)).toBe(9)
+    expect(calls).toEqual(['before', 'incre', 'after', 'before', 'decre', 'after'])
+
+    // the original apis stay untouched
+    expect(await incre(1)).toBe(2)
+  })
+
+  it('keeps the wrapped apis working with new and use of the original ones', async () => {
+    const calls: string[] = []
+
+    const double = Api({
+      input: Int,
+      output: Int,
+    })
+
+    const triple = Api(
+      {
+        input: Int,
+        output: Int,
+      },
+      (input) => {
+        calls.push('triple')
+        return input * 3
+      },
+    )
+
+    const entries = withMiddleware({ double, triple }, (input, next) => {
+      calls.push('middleware')
+      return next(input)
+    })
+
+    // the impl used by the original api later is called by the wrapped one
+    double.use((input) => {
+      calls.push('double')
+      return input * 2
+    })
+
+    expect(await entries.double(1)).toBe(2)
+    expect(calls).toEqual(['middleware', 'double'])
+
+    // the new api runs the middlewares before the new one of the original api
+    const newTriple = entries.triple.new()
+
+    expect(newTriple).not.toBe(entries.triple)
+    expect(newTriple.definition).toBe(triple.definition)
+    expect(await newTriple(2)).toBe(6)
+    expect(calls).toEqual(['middleware', 'double', 'middleware', 'triple'])
+  })
 })
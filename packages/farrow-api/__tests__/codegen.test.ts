@@ -21,6 +21,18 @@ import {
   Date,
   Tuple,
   partial,
+  field,
+  Lazy,
+  Enum,
+  Brand,
+  BigInt,
+  Bytes,
+  Url,
+  SetOf,
+  MapOf,
+  TaggedUnion,
+  Transform,
+  Schema,
 } from 'farrow-schema'
 
 const NamedStruct = Struct({
@@ -218,4 +230,274 @@ describe('generateApi', () => {
     expect(source.includes('// header')).toBe(true)
     expect(source.includes('// footer')).toBe(true)
   })
+
+  it('supports attaching default value of fields as comment', () => {
+    const getUser = Api({
+      input: {},
+      output: Struct({
+        role: field({
+          [Type]: String,
+          default: 'user',
+        }),
+      }),
+    })
+
+    const source = codegen(toJSON({ getUser }))
+
+    expect(source).toContain('* @default "user"')
+  })
+
+  it('supports emitting recursive type via Lazy', () => {
+    type Comment = {
+      text: string
+      replies: Comment[]
+    }
+
+    const Comment: new () => Schema & { __type: Comment } = Struct({
+      text: String,
+      replies: List(Lazy(() => Comment)),
+    })
+
+    const NamedComment = Lazy(() => Comment)
+
+    NamedComment.displayName = 'Comment'
+
+    const getComments = Api({
+      input: {},
+      output: List(NamedComment),
+    })
+
+    const source = codegen(toJSON({ getComments }))
+
+    expect(source).toContain(['export type Comment = {', '  text: string,', '  replies: (Type5)[]', '}'].join('\n'))
+
+    expect(source).toContain(['export type Type5 = {', '  text: string,', '  replies: (Type5)[]', '}'].join('\n'))
+
+    expect(source).toContain('Promise<(Comment)[]>')
+  })
+
+  it('supports emitting tagged union', () => {
+    const Shape = TaggedUnion('kind', {
+      Circle: {
+        radius: Int,
+      },
+    })
+
+    Shape.displayName = 'Shape'
+
+    const getShape = Api({
+      input: {},
+      output: Shape,
+    })
+
+    const source = codegen(toJSON({ getShape }))
+
+    expect(source).toContain(['export type Shape =', '  | { "kind": "Circle" } & {'].join('\n'))
+  })
+
+  it('supports emitting wire type of Transform', () => {
+    const Timestamp = Transform(Int, {
+      decode: (input) => new globalThis.Date(input),
+      encode: (value) => value.getTime(),
+    })
+
+    const getTime = Api({
+      input: {},
+      output: {
+        time: Timestamp,
+      },
+    })
+
+    const source = codegen(toJSON({ getTime }))
+
+    expect(source).toContain('time: number')
+  })
+
+  it('supports emitting enum as union type with const array', () => {
+    const Status = Enum('Status', ['active', 'archived'])
+
+    const getStatus = Api({
+      input: {},
+      output: {
+        status: Status,
+      },
+    })
+
+    const source = codegen(toJSON({ getStatus }))
+
+    expect(source).toContain('export type Status = "active" | "archived"')
+    expect(source).toContain('export const StatusValues = ["active", "archived"] as const')
+    expect(source).toContain('status: Status')
+  })
+
+  it('supports emitting branded alias of scalar', () => {
+    const UserId = Brand(String, 'UserId')
+
+    const getUser = Api({
+      input: {
+        id: UserId,
+      },
+      output: {
+        id: UserId,
+        friendIds: List(Brand(String, 'UserId')),
+      },
+    })
+
+    const source = codegen(toJSON({ getUser }))
+
+    expect(source.match(/export type UserId = string & \{ readonly __brand: "UserId" \}/g)?.length).toBe(1)
+    expect(source).toContain('id: UserId')
+    expect(source).toContain('friendIds: (UserId)[]')
+  })
+
+  it('supports emitting wire types of built-in kinds', () => {
+    const getFile = Api({
+      input: {
+        url: Url,
+      },
+      output: {
+        size: BigInt,
+        content: Bytes,
+        tags: SetOf(String),
+        owners: MapOf(Int, String),
+      },
+    })
+
+    const source = codegen(toJSON({ getFile }))
+
+    expect(source).toContain('url: string')
+    expect(source).toContain('size: string')
+    expect(source).toContain('content: string')
+    expect(source).toContain('tags: (string)[]')
+    expect(source).toContain('owners: [number, string][]')
+  })
+
+  it('supports emitting key type of record', () => {
+    const getScores = Api({
+      input: {
+        names: Record(String),
+      },
+      output: {
+        scores: Record(Union(Literal('math'), Literal('art')), Int),
+      },
+    })
+
+    const source = codegen(toJSON({ getScores }))
+
+    expect(source).toContain('names: Record<string, string>')
+    expect(source).toContain('scores: Partial<Record<"math" | "art", number>>')
+  })
+
+  it('supports emitting type guards of declared errors', () => {
+    const getUser = Api({
+      input: { id: Int },
+      output: { name: String },
+      errors: {
+        NotFound: { id: Int },
+        Forbidden: String,
+      },
+    })
+
+    const source = codegen(toJSON({ getUser, methodA }))
+
+    expect(source).toContain(`export type ApiClientError<Code extends string = string, Payload = JsonType> = Error & {
+  code: Code
+  payload: Payload
+}`)
+    expect(source).toContain('export const isApiClientError = ')
+    expect(source).toContain(`isError: (error: unknown): error is ApiClientError<"NotFound", {
+          id: number
+        }> | ApiClientError<"Forbidden", string> => {
+          return isApiClientError(error, ["NotFound", "Forbidden"])
+        },`)
+
+    // apis without declared errors are emitted as before
+    expect(codegen(toJSON({ methodA }))).not.toContain('ApiClientError')
+  })
+
+  it('supports emitting schemas for validating input/output', () => {
+    class User extends ObjectType {
+      id = Int
+      name = String
+      role = {
+        description: 'role: admin or user',
+        [Type]: String,
+        default: 'user',
+      }
+    }
+
+    const getUser = Api({
+      input: { id: Int },
+      output: User,
+    })
+
+    const source = codegen(toJSON({ getUser }), { schemas: true })
+
+    expect(source).toContain(`import * as FarrowSchema from 'farrow-schema'`)
+    expect(source).not.toContain(`from 'farrow-api`)
+    expect(source).toContain(`export class UserSchema extends FarrowSchema.ObjectType {
+  id = FarrowSchema.Int
+  name = FarrowSchema.String
+  role = { description: "role: admin or user", default: "user", [FarrowSchema.Type]: FarrowSchema.String }
+}`)
+    expect(source).toContain(`const Type0Schema: FarrowSchema.SchemaCtor = FarrowSchema.Struct({
+  id: FarrowSchema.Int
+})`)
+    expect(source).toContain(`validation?: {
+    input?: boolean
+    output?: boolean
+  }`)
+    expect(source).toContain(`if (options.validation?.input) {
+        validate(Type0Schema, input)
+      }`)
+    expect(source).toContain(`if (options.validation?.output) {
+        validate(UserSchema, output)
+      }
+      return output as User`)
+
+    // schemas are not emitted by default
+    expect(codegen(toJSON({ getUser }))).not.toContain('FarrowSchema')
+  })
+
+  it('supports emitting schemas referring to each other', () => {
+    type Node = {
+      value: number
+      children: Node[]
+    }
+
+    const Node: new () => Schema & { __type: Node } = Struct({
+      value: Int,
+      children: List(Lazy(() => Node)),
+    })
+
+    const Tree = Struct({
+      root: Node,
+      size: {
+        description: 'the count of nodes',
+        [Type]: Int,
+      },
+    })
+
+    const getTree = Api({
+      input: {},
+      output: {
+        [Type]: Tree,
+      },
+    })
+
+    const source = codegen(toJSON({ getTree }), { schemas: true })
+
+    // the item of Lazy refers to itself
+    const lazyDeclaration = `export const Type4Schema: FarrowSchema.SchemaCtor = FarrowSchema.Lazy(() => FarrowSchema.Struct({
+  value: FarrowSchema.Int,
+  children: FarrowSchema.List(Type4Schema)
+}))`
+
+    expect(source).toContain(lazyDeclaration)
+    expect(source).toContain(`root: FarrowSchema.Struct({
+    value: FarrowSchema.Int,
+    children: FarrowSchema.List(Type4Schema)
+  }),
+  size: { description: "the count of nodes", [FarrowSchema.Type]: FarrowSchema.Int }`)
+  })
 })
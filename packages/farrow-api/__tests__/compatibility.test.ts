@@ -0,0 +1,278 @@
+import {
+  Int,
+  Float,
+  List,
+  Literal,
+  Nullable,
+  ObjectType,
+  Struct,
+  TaggedUnion,
+  Union,
+  Enum,
+  Min,
+  Record,
+} from 'farrow-schema'
+import { Api, ApiEntries } from '../src/api'
+import { toJSON } from '../src/toJSON'
+import { checkCompatibility, CompatibilityChange } from '../src/compatibility'
+
+const getChanges = (prev: ApiEntries, next: ApiEntries) => {
+  return checkCompatibility(toJSON(prev), toJSON(next)).changes.map(
+    ({ level, kind, location }): Partial<CompatibilityChange> => ({ level, kind, location }),
+  )
+}
+
+describe('checkCompatibility', () => {
+  it('reports nothing for the same apis', () => {
+    class User extends ObjectType {
+      id = Int
+      name = String
+      friends = List(User)
+    }
+
+    const entries = {
+      getUser: Api({
+        input: { id: Int },
+        output: User,
+      }),
+    }
+
+    expect(checkCompatibility(toJSON(entries), toJSON(entries))).toEqual({
+      breaking: false,
+      changes: [],
+    })
+  })
+
+  it('classifies field changes by input or output', () => {
+    const prev = {
+      user: {
+        getUser: Api({
+          input: { id: Int },
+          output: { id: Int, name: String, bio: Nullable(String) },
+        }),
+      },
+    }
+
+    const next = {
+      user: {
+        getUser: Api({
+          input: { id: Int, token: String, locale: Nullable(String) },
+          output: { id: Int },
+        }),
+      },
+    }
+
+    const report = checkCompatibility(toJSON(prev), toJSON(next))
+
+    expect(report.breaking).toBe(true)
+    expect(report.changes).toEqual([
+      {
+        level: 'breaking',
+        kind: 'field-added',
+        effect: 'narrow',
+        api: ['user', 'getUser'],
+        location: ['input', 'token'],
+        message: 'required field token was added',
+      },
+      {
+        level: 'non-breaking',
+        kind: 'field-added',
+        effect: 'neutral',
+        api: ['user', 'getUser'],
+        location: ['input', 'locale'],
+        message: 'optional field locale was added',
+      },
+      {
+        level: 'breaking',
+        kind: 'field-removed',
+        effect: 'widen',
+        api: ['user', 'getUser'],
+        location: ['output', 'name'],
+        message: 'required field name was removed',
+      },
+      {
+        level: 'non-breaking',
+        kind: 'field-removed',
+        effect: 'neutral',
+        api: ['user', 'getUser'],
+        location: ['output', 'bio'],
+        message: 'optional field bio was removed',
+      },
+    ])
+
+    // the same changes in the other direction
+    expect(getChanges(next, prev)).toEqual([
+      { level: 'non-breaking', kind: 'field-removed', location: ['input', 'token'] },
+      { level: 'non-breaking', kind: 'field-removed', location: ['input', 'locale'] },
+      { level: 'non-breaking', kind: 'field-added', location: ['output', 'name'] },
+      { level: 'non-breaking', kind: 'field-added', location: ['output', 'bio'] },
+    ])
+  })
+
+  it('detects changes of nullable, literal, scalar and constraints', () => {
+    const prev = {
+      update: Api({
+        input: {
+          name: Nullable(String),
+          kind: Literal('a'),
+          count: Int,
+          age: Min(Int, 0),
+        },
+        output: {
+          name: String,
+          score: Float,
+        },
+      }),
+    }
+
+    const next = {
+      update: Api({
+        input: {
+          name: String,
+          kind: Literal('b'),
+          count: Float,
+          age: Min(Int, 18),
+        },
+        output: {
+          name: Nullable(String),
+          score: Int,
+        },
+      }),
+    }
+
+    expect(getChanges(prev, next)).toEqual([
+      { level: 'breaking', kind: 'nullable-removed', location: ['input', 'name'] },
+      { level: 'breaking', kind: 'literal-changed', location: ['input', 'kind'] },
+      { level: 'non-breaking', kind: 'type-changed', location: ['input', 'count'] },
+      { level: 'breaking', kind: 'constraint-changed', location: ['input', 'age'] },
+      { level: 'breaking', kind: 'nullable-added', location: ['output', 'name'] },
+      { level: 'non-breaking', kind: 'type-changed', location: ['output', 'score'] },
+    ])
+  })
+
+  it('detects changes of unions and enums', () => {
+    const Status = Union(Literal('active'), Literal('archived'))
+
+    const prev = {
+      list: Api({
+        input: {
+          status: Status,
+          shape: TaggedUnion('type', {
+            Circle: { radius: Int },
+            Square: { size: Int },
+          }),
+        },
+        output: {
+          status: Status,
+          level: Enum('Level', ['low', 'high']),
+        },
+      }),
+    }
+
+    const next = {
+      list: Api({
+        input: {
+          status: Literal('active'),
+          shape: TaggedUnion('type', {
+            Circle: { radius: Float },
+          }),
+        },
+        output: {
+          status: Union(Literal('active'), Literal('archived'), Literal('deleted')),
+          level: Enum('Level', ['low', 'high', 'medium']),
+        },
+      }),
+    }
+
+    expect(getChanges(prev, next)).toEqual([
+      { level: 'breaking', kind: 'union-member-removed', location: ['input', 'status'] },
+      { level: 'non-breaking', kind: 'type-changed', location: ['input', 'shape', 'Circle', 'radius'] },
+      { level: 'breaking', kind: 'union-member-removed', location: ['input', 'shape'] },
+      { level: 'breaking', kind: 'union-member-added', location: ['output', 'status'] },
+      { level: 'breaking', kind: 'enum-value-added', location: ['output', 'level'] },
+    ])
+  })
+
+  it('detects changes in nested and recursive types', () => {
+    class PrevNode extends ObjectType {
+      value = Int
+      children = List(PrevNode)
+    }
+
+    class NextNode extends ObjectType {
+      value = String
+      children = List(NextNode)
+    }
+
+    const prev = {
+      getTree: Api({
+        input: {},
+        output: Struct({ root: PrevNode, tags: Record(Int) }),
+      }),
+    }
+
+    const next = {
+      getTree: Api({
+        input: {},
+        output: Struct({ root: NextNode, tags: Record(String) }),
+      }),
+    }
+
+    expect(getChanges(prev, next)).toEqual([
+      { level: 'breaking', kind: 'type-changed', location: ['output', 'root', 'value'] },
+      { level: 'breaking', kind: 'type-changed', location: ['output', 'tags', '{}'] },
+    ])
+  })
+
+  it('detects changes of record keys', () => {
+    const Subject = Union(Literal('math'), Literal('art'))
+
+    const prev = {
+      getScores: Api({
+        input: { scores: Record(Subject, Int) },
+        output: { scores: Record(Int) },
+      }),
+    }
+
+    const next = {
+      getScores: Api({
+        input: { scores: Record(Literal('math'), Int) },
+        output: { scores: Record(Subject, Int) },
+      }),
+    }
+
+    expect(getChanges(prev, next)).toEqual([
+      { level: 'breaking', kind: 'union-member-removed', location: ['input', 'scores', '{key}'] },
+      { level: 'non-breaking', kind: 'type-changed', location: ['output', 'scores', '{key}'] },
+    ])
+  })
+
+  it('detects removed and added apis', () => {
+    const getCount = Api({
+      input: {},
+      output: Int,
+    })
+
+    expect(checkCompatibility(toJSON({ getCount }), toJSON({ counter: { getCount } }))).toEqual({
+      breaking: true,
+      changes: [
+        {
+          level: 'breaking',
+          kind: 'api-removed',
+          effect: 'incompatible',
+          api: ['getCount'],
+          location: [],
+          message: 'api getCount was removed',
+        },
+        {
+          level: 'non-breaking',
+          kind: 'api-added',
+          effect: 'neutral',
+          api: ['counter', 'getCount'],
+          location: [],
+          message: 'api counter.getCount was added',
+        },
+      ],
+    })
+  })
+})
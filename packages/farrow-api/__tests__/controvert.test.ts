@@ -1,7 +1,8 @@
-import { Int, Type } from 'farrow-schema'
+import { Int, Type, Brand, Record, Union, Literal, List, ObjectType } from 'farrow-schema'
+import { createSchemaValidator } from 'farrow-schema/validator'
 import { Api, ApiEntries } from '../src/api'
 import { toJSON } from '../src/toJSON'
-import { controvertEntries } from '../src/controvert'
+import { controvertEntries, controvertTypes } from '../src/controvert'
 
 describe('controvert', () => {
   it('work', () => {
@@ -25,4 +26,68 @@ describe('controvert', () => {
 
     expect('incre' in newEntries).toBeTruthy()
   })
+
+  it('keeps brand of scalar', () => {
+    const entries: ApiEntries = {
+      getUser: Api({
+        input: Brand(String, 'UserId'),
+        output: Int,
+      }),
+    }
+
+    const formatResult = toJSON(entries)
+
+    expect(toJSON(controvertEntries(formatResult))).toEqual(formatResult)
+  })
+
+  it('keeps key type of record', () => {
+    const entries: ApiEntries = {
+      getScores: Api({
+        input: Record(Union(Literal('math'), Literal('art')), Int),
+        output: Record(Int),
+      }),
+    }
+
+    const formatResult = toJSON(entries)
+
+    expect(toJSON(controvertEntries(formatResult))).toEqual(formatResult)
+  })
+
+  it('keeps metadata of api', () => {
+    const entries: ApiEntries = {
+      getScore: Api({
+        input: Int,
+        output: Int,
+        tags: ['score'],
+        examples: [{ input: 1, output: 100 }],
+        scopes: ['score:read'],
+        internal: true,
+      }),
+    }
+
+    const formatResult = toJSON(entries)
+
+    expect(toJSON(controvertEntries(formatResult))).toEqual(formatResult)
+  })
+
+  it('supports types referring to the types after them', () => {
+    class Comment extends ObjectType {
+      content = String
+      replies = List(Comment)
+    }
+
+    const entries: ApiEntries = {
+      getComments: Api({
+        input: { id: Int },
+        output: Comment,
+      }),
+    }
+
+    const formatResult = toJSON(entries)
+    const types = controvertTypes(formatResult.types)
+    const validateComment = createSchemaValidator(types.get('2')!)
+
+    expect(validateComment({ content: 'a', replies: [{ content: 'b', replies: [] }] }).isOk).toBe(true)
+    expect(validateComment({ content: 'a', replies: [{ content: 1, replies: [] }] }).isErr).toBe(true)
+  })
 })
@@ -0,0 +1,121 @@
+import { Enum, Int, List, Nullable, ObjectType, Record, Struct, Tuple, Type, Union, Brand, Json } from 'farrow-schema'
+import { printTypes } from '../src/printer'
+
+class User extends ObjectType {
+  id = Brand(Int, 'UserId')
+  name = {
+    [Type]: String,
+    description: 'name of user',
+  }
+  status = Enum('Status', ['active', 'archived'])
+  tags = List(String)
+  nickname = {
+    [Type]: Nullable(String),
+    deprecated: 'use name instead',
+  }
+}
+
+const Point = Tuple(Int, Int)
+
+const Page = Struct({
+  users: List(User),
+  total: Int,
+})
+
+describe('printTypes', () => {
+  it('prints declarations of schemas', () => {
+    const source = printTypes({
+      User,
+      Page: {
+        [Type]: Page,
+        description: 'a page of users',
+        deprecated: 'use cursors',
+      },
+      Id: Union(Int, String),
+      Member: User,
+    })
+
+    expect(source).toBe(`/**
+ * @label User
+*/
+export type User = {
+  id: UserId,
+  /**
+  * @remarks name of user
+  */
+  name: string,
+  status: Status,
+  tags: (string)[],
+  /**
+  * @deprecated use name instead
+  */
+  nickname?: string | null | undefined
+}
+
+/**
+ * @label UserId
+*/
+export type UserId = number & { readonly __brand: "UserId" }
+
+/**
+ * @label Status
+*/
+export type Status = "active" | "archived"
+
+export const StatusValues = ["active", "archived"] as const
+
+/**
+ * @label Page
+ * @remarks a page of users
+ * @deprecated use cursors
+*/
+export type Page = {
+  users: (User)[],
+  total: number
+}
+
+/**
+ * @label Id
+*/
+export type Id =
+  | number
+  | string
+
+/**
+ * @label Member
+*/
+export type Member = User
+`)
+  })
+
+  it('supports interface and readonly modifiers', () => {
+    const source = printTypes(
+      {
+        Page,
+        Point,
+        Extra: Record(Json),
+      },
+      {
+        declaration: 'interface',
+        readonly: true,
+      },
+    )
+
+    expect(source).toContain('export type JsonType =')
+
+    expect(source).toContain(`export interface Page {
+  readonly users: readonly (User)[],
+  readonly total: number
+}`)
+
+    expect(source).toContain(`export interface User {
+  readonly id: UserId,`)
+
+    expect(source).toContain(`export type Point = readonly [
+  number,
+  number
+]`)
+
+    expect(source).toContain('export type Extra = Readonly<Record<string, JsonType>>')
+  })
+})
@@ -1,3 +1,5 @@
+import * as Schema from 'farrow-schema'
+import { Int, Type } from 'farrow-schema'
 import { Api } from '../src/api'
 import { toJSON } from '../src/toJSON'
 
@@ -58,4 +60,80 @@ describe('toJSON', () => {
       },
     })
   })
+
+  it('supports declared errors', () => {
+    const getUser = Api({
+      input: Int,
+      output: String,
+      errors: {
+        NotFound: {
+          [Type]: Int,
+          description: 'id of user',
+        },
+      },
+    })
+
+    const result = toJSON({ getUser })
+
+    expect(result.entries.entries.getUser).toEqual({
+      type: 'Api',
+      input: { typeId: 0, $ref: '#/types/0' },
+      output: { typeId: 1, $ref: '#/types/1' },
+      errors: {
+        NotFound: { typeId: 0, $ref: '#/types/0', description: 'id of user' },
+      },
+    })
+  })
+
+  it('supports metadata of api', () => {
+    const getBalance = Api({
+      input: { id: Int },
+      output: Schema.BigInt,
+      tags: ['account'],
+      examples: [
+        {
+          description: 'a rich user',
+          input: { id: 1 },
+          output: BigInt('9007199254740993'),
+        },
+      ],
+      scopes: ['account:read'],
+    })
+
+    const resetBalance = Api({
+      input: { id: Int },
+      output: Schema.BigInt,
+      internal: true,
+    })
+
+    const entries = {
+      getBalance,
+      resetBalance,
+      admin: {
+        resetBalance,
+      },
+    }
+
+    const result = toJSON(entries)
+
+    expect(result.entries.entries.getBalance).toEqual({
+      type: 'Api',
+      input: { typeId: 0, $ref: '#/types/0' },
+      output: { typeId: 2, $ref: '#/types/2' },
+      tags: ['account'],
+      examples: [
+        {
+          description: 'a rich user',
+          input: { id: 1 },
+          output: '9007199254740993',
+        },
+      ],
+      scopes: ['account:read'],
+    })
+
+    expect(result.entries.entries.resetBalance).toMatchObject({ internal: true })
+
+    // internal apis and the entries only containing them are hidden
+    expect(Object.keys(toJSON(entries, { internal: false }).entries.entries)).toEqual(['getBalance'])
+  })
 })
@@ -1,5 +1,12 @@
 import { Type, TypeOf, ToSchemaCtor, SchemaCtorInput, JsonType, Json, ObjectType, Union, Literal } from 'farrow-schema'
-import { createAsyncPipeline, AsyncPipeline, MaybeAsync, useContainer, Container } from 'farrow-pipeline'
+import {
+  createAsyncPipeline,
+  AsyncPipeline,
+  MaybeAsync,
+  MiddlewareInput,
+  useContainer,
+  Container,
+} from 'farrow-pipeline'
 
 export type { JsonType }
 
@@ -26,6 +33,16 @@ export const getTypeDeprecated = (typeable: Typeable<any>): string | undefined =
   return (typeable as any)?.deprecated
 }
 
+export type ApiErrorDefinitions = {
+  [code: string]: Typeable<SchemaCtorInput>
+}
+
+export type ApiExample<Input extends SchemaCtorInput = any, Output extends SchemaCtorInput = any> = {
+  description?: string
+  input: TypeOf<ToSchemaCtor<Input>>
+  output: TypeOf<ToSchemaCtor<Output>>
+}
+
 export type ApiDefinition<Input extends SchemaCtorInput = any, Output extends SchemaCtorInput = any> = {
   /**
    * input schema of api
@@ -43,6 +60,26 @@ export type ApiDefinition<Input extends SchemaCtorInput = any, Output extends Sc
    * deprecated info of api if needed
    */
   deprecated?: string
+  /**
+   * the schemas of payloads of errors raised by api.error, keyed by error code
+   */
+  errors?: ApiErrorDefinitions
+  /**
+   * tags for grouping apis in docs
+   */
+  tags?: string[]
+  /**
+   * example input/output pairs of api
+   */
+  examples?: ApiExample<Input, Output>[]
+  /**
+   * the auth scopes required by api
+   */
+  scopes?: string[]
+  /**
+   * internal apis are only exposed to trusted callers, see farrow-api-server
+   */
+  internal?: boolean
 }
 
 export type TypeOfTypeable<T extends Typeable<SchemaCtorInput>> = TypeOf<ToSchemaCtor<TypeableContentType<T>>>
@@ -61,8 +98,33 @@ export type ApiSchema<T extends ApiDefinition = ApiDefinition> = {
   definition: T
 }
 
+export class ApiError<Code extends string = string, Payload = unknown> extends Error {
+  type = 'ApiError' as const
+  constructor(public code: Code, public payload: Payload, message: string = code) {
+    super(message)
+  }
+}
+
+export const isApiError = (input: any): input is ApiError => {
+  return input?.type === 'ApiError' && typeof input.code === 'string'
+}
+
+export type ApiErrorCode<T extends ApiDefinition> = keyof NonNullable<T['errors']> & string
+
+export type ApiErrorPayload<T extends ApiDefinition, Code extends ApiErrorCode<T>> = TypeOfTypeable<
+  NonNullable<T['errors']>[Code]
+>
+
 export type ApiMethods<T extends ApiDefinition = ApiDefinition> = {
   new: () => ApiType<T>
+  /**
+   * create an error declared in definition.errors, impls throw it to respond with its code and payload
+   */
+  error: <Code extends ApiErrorCode<T>>(
+    code: Code,
+    payload: ApiErrorPayload<T, Code>,
+    message?: string,
+  ) => ApiError<Code, ApiErrorPayload<T, Code>>
 }
 
 export type ApiType<T extends ApiDefinition = ApiDefinition> = ApiImpl<T> &
@@ -100,6 +162,12 @@ export function createApi<T extends ApiDefinition>(definition: T, impl?: ApiImpl
     new() {
       return createApi(definition, impl)
     },
+    error(code, payload, message) {
+      if (!definition.errors || !Object.prototype.hasOwnProperty.call(definition.errors, code)) {
+        throw new Error(`Unknown error code of api: ${code}`)
+      }
+      return new ApiError(code, payload, message)
+    },
   }
 
   if (impl) {
@@ -113,4 +181,43 @@ export const Api = createApi
 
 export type ApiEntries = {
   [key: string]: ApiType | ApiEntries
-}
\ No newline at end of file
+}
+
+/**
+ * the middleware shared by apis, input and output are the values of the api being called
+ * they are unknown, since the apis have different types, narrow them before using
+ */
+export type ApiMiddleware = MiddlewareInput<unknown, MaybeAsync<unknown>>
+
+const createApiWithMiddleware = (entry: ApiType, middlewares: ApiMiddleware[]): ApiType => {
+  const api = createApi(entry.definition)
+
+  // call the api itself, it runs in the current container if there is one
+  api.use(...middlewares, (input) => entry(input))
+
+  // the new api runs the middlewares before the new one of the original api
+  api.new = () => createApiWithMiddleware(entry.new(), middlewares)
+
+  return api
+}
+
+/**
+ * create entries whose apis, nested ones included, run the middlewares before their own pipelines
+ * the given entries are left untouched, the impls and middlewares used by them later still work
+ * the created apis end with calling the given ones, so use impls and middlewares on the given apis instead of the created ones
+ */
+export const withMiddleware = <T extends ApiEntries>(entries: T, ...middlewares: ApiMiddleware[]): T => {
+  const result: ApiEntries = {}
+
+  for (const key in entries) {
+    const entry = entries[key]
+
+    if (isApi(entry)) {
+      result[key] = createApiWithMiddleware(entry, middlewares)
+    } else {
+      result[key] = withMiddleware(entry as ApiEntries, ...middlewares)
+    }
+  }
+
+  return result as T
+}
@@ -1,7 +1,19 @@
-import { FormatFields, FormatType, FormatTypes, isNamedFormatType } from 'farrow-schema/formatter'
+import {
+  FormatField,
+  FormatFields,
+  FormatType,
+  FormatTypes,
+  FormatTaggedUnionType,
+  isNamedFormatType,
+} from 'farrow-schema/formatter'
 import { FormatEntries, FormatResult, FormatApi } from './toJSON'
 
 export const isInlineType = (input: FormatType) => {
+  // lazy type may be recursive, it should always be referred by name
+  if (input.type === 'Lazy') {
+    return false
+  }
+
   if (isNamedFormatType(input)) {
     return !input.name
   }
@@ -49,7 +61,25 @@ const getTypeNameById = (typeId: number | string): string => {
   return `Type${typeId}`
 }
 
-export const getFieldType = (typeId: number, types: FormatTypes, indent = 2): string => {
+export type TypeDeclarationOptions = {
+  /**
+   * declare Object/Struct by interface or type
+   * default: 'type'
+   */
+  declaration?: 'interface' | 'type'
+  /**
+   * add readonly modifiers to fields, lists, tuples and records
+   * default: false
+   */
+  readonly?: boolean
+}
+
+export const getFieldType = (
+  typeId: number,
+  types: FormatTypes,
+  indent = 2,
+  options: TypeDeclarationOptions = {},
+): string => {
   const fieldType = types[typeId]
 
   const typeName = getTypeName(fieldType)
@@ -62,12 +92,17 @@ export const getFieldType = (typeId: number, types: FormatTypes, indent = 2): st
     return getTypeNameById(typeId)
   }
 
+  const readonly = options.readonly ? 'readonly ' : ''
+
   if (fieldType.type === 'Scalar') {
-    return fieldType.valueType
+    return fieldType.brand ?? fieldType.valueType
   }
 
   if (fieldType.type === 'Record') {
-    return `Record<string, ${getFieldType(fieldType.valueTypeId, types)}>`
+    const keyType = fieldType.keyTypeId === undefined ? 'string' : getFieldType(fieldType.keyTypeId, types, 2, options)
+    const record = `Record<${keyType}, ${getFieldType(fieldType.valueTypeId, types, 2, options)}>`
+    const result = keyType === 'string' ? record : `Partial<${record}>`
+    return options.readonly ? `Readonly<${result}>` : result
   }
 
   if (fieldType.type === 'Literal') {
@@ -76,109 +111,179 @@ export const getFieldType = (typeId: number, types: FormatTypes, indent = 2): st
   }
 
   if (fieldType.type === 'Nullable') {
-    return `${getFieldType(fieldType.itemTypeId, types)} | null | undefined`
+    return `${getFieldType(fieldType.itemTypeId, types, 2, options)} | null | undefined`
+  }
+
+  if (fieldType.type === 'List' || fieldType.type === 'Set') {
+    return `${readonly}(${getFieldType(fieldType.itemTypeId, types, 2, options)})[]`
   }
 
-  if (fieldType.type === 'List') {
-    return `(${getFieldType(fieldType.itemTypeId, types)})[]`
+  // the wire value of Map is a list of entries
+  if (fieldType.type === 'Map') {
+    const keyType = getFieldType(fieldType.keyTypeId, types, 2, options)
+    const valueType = getFieldType(fieldType.valueTypeId, types, 2, options)
+    return `${readonly}[${keyType}, ${valueType}][]`
   }
 
   if (fieldType.type === 'Union') {
-    return fieldType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types)).join(' | ')
+    return fieldType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types, 2, options)).join(' | ')
+  }
+
+  if (fieldType.type === 'TaggedUnion') {
+    return getTaggedUnionItemTypes(fieldType, types, options).join(' | ')
   }
 
   if (fieldType.type === 'Intersect') {
-    return fieldType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types)).join(' & ')
+    return fieldType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types, 2, options)).join(' & ')
   }
 
   if (fieldType.type === 'Struct') {
-    return `{\n${applyIndentForEachLine(getFieldsType(fieldType.fields, types).join(',\n'), indent)}\n${' '.repeat(
-      indent - 2,
-    )}}`
+    const fields = getFieldsType(fieldType.fields, types, options).join(',\n')
+    return `{\n${applyIndentForEachLine(fields, indent)}\n${' '.repeat(indent - 2)}}`
   }
 
   if (
     fieldType.type === 'Strict' ||
     fieldType.type === 'NonStrict' ||
+    fieldType.type === 'UnknownKeys' ||
     fieldType.type === 'ReadOnly' ||
-    fieldType.type === 'ReadOnlyDeep'
+    fieldType.type === 'ReadOnlyDeep' ||
+    fieldType.type === 'Constrained'
   ) {
-    return getFieldType(fieldType.itemTypeId, types)
+    return getFieldType(fieldType.itemTypeId, types, 2, options)
   }
 
   if (fieldType.type === 'Tuple') {
-    return `[${fieldType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types)).join(', ')}]`
+    return `${readonly}[${fieldType.itemTypes
+      .map((itemType) => getFieldType(itemType.typeId, types, 2, options))
+      .join(', ')}]`
   }
 
   throw new Error(`Unsupported field: ${JSON.stringify(fieldType, null, 2)}`)
 }
 
-export const getFieldsType = (fields: FormatFields, types: FormatTypes): string[] => {
+const getTaggedUnionItemTypes = (
+  fieldType: FormatTaggedUnionType,
+  types: FormatTypes,
+  options: TypeDeclarationOptions = {},
+): string[] => {
+  const readonly = options.readonly ? 'readonly ' : ''
+  return fieldType.itemTypes.map((itemType) => {
+    const itemFieldType = getFieldType(itemType.typeId, types, 2, options)
+    return `{ ${readonly}${JSON.stringify(fieldType.tag)}: "${itemType.value}" } & ${itemFieldType}`
+  })
+}
+
+export const getFieldsType = (
+  fields: FormatFields,
+  types: FormatTypes,
+  options: TypeDeclarationOptions = {},
+): string[] => {
+  const readonly = options.readonly ? 'readonly ' : ''
   return Object.entries(fields).map(([key, field]) => {
     const fieldType = types[field.typeId]
     let result = ''
 
     if (fieldType.type === 'Nullable') {
-      result = `${key}?: ${getFieldType(field.typeId, types)}`
+      result = `${readonly}${key}?: ${getFieldType(field.typeId, types, 2, options)}`
     } else {
-      result = `${key}: ${getFieldType(field.typeId, types)}`
+      result = `${readonly}${key}: ${getFieldType(field.typeId, types, 2, options)}`
     }
 
     return attachComment(result, {
       remarks: field.description,
       deprecated: field.deprecated,
+      default: field.default === undefined ? undefined : JSON.stringify(field.default),
     })
   })
 }
 
-export type CodegenOptions = {
-  /**
-   * emit ApiClient or not
-   * default: true
-   */
-  apiClient?: boolean
+export type TypeComment = {
+  remarks?: string
+  deprecated?: string
+}
 
-  /**
-   * code insert at the top of the file
-   */
-  header?: string
+export const getLabelComment = (typeName: string, comment: TypeComment = {}) => {
+  const list = [` * @label ${typeName}`]
 
-  /**
-   * code insert at the bottom of the file
-   * */
-  footer?: string
+  if (comment.remarks) {
+    list.push(` * @remarks ${transformComment(comment.remarks.trim())}`)
+  }
+
+  if (comment.deprecated) {
+    list.push(` * @deprecated ${transformComment(comment.deprecated.trim())}`)
+  }
+
+  return `/**\n${list.join('\n')}\n*/`
 }
 
-export const DEFAULT_HEADER = `
 /**
- * This file was generated by farrow-api
- * Don't modify it manually
-*/
-`.trim()
+ * get the declarations of named types, comments are keyed by typeId
+ */
+export const getTypeDeclarations = (
+  types: FormatTypes,
+  options: TypeDeclarationOptions = {},
+  comments: { [typeId: string]: TypeComment } = {},
+): string[] => {
+  const exportSet = new Set<string>()
 
-export const JSON_TYPE_DECLARATION = `
-export type JsonType =
-  | number
-  | string
-  | boolean
-  | null
-  | undefined
-  | JsonType[]
-  | { toJSON(): string }
-  | { [key: string]: JsonType }
-`.trim()
+  const handleTypeDeclaration = (formatType: FormatType, typeId: string): string => {
+    // branded scalars are referred by brand, the same brand may be formatted more than once
+    if (formatType.type === 'Scalar' && formatType.brand) {
+      const typeName = formatType.brand
 
-export const codegen = (formatResult: FormatResult, options?: CodegenOptions): string => {
-  const exportSet = new Set<string>()
+      if (exportSet.has(typeName)) {
+        return ''
+      }
+
+      exportSet.add(typeName)
+
+      return `
+${getLabelComment(typeName, comments[typeId])}
+export type ${typeName} = ${formatType.valueType} & { readonly __brand: ${JSON.stringify(typeName)} }
+`.trim()
+    }
 
-  const handleTypeDeclaration = (formatType: FormatType): string => {
     if (isInlineType(formatType)) {
       return ''
     }
 
+    if (formatType.type === 'Lazy') {
+      const typeName = formatType.name ?? getTypeNameById(typeId)
+
+      if (exportSet.has(typeName)) {
+        throw new Error(`Duplicate Lazy type name: ${typeName}`)
+      }
+
+      exportSet.add(typeName)
+
+      return `
+${getLabelComment(typeName, comments[typeId])}
+export type ${typeName} = ${getFieldType(formatType.itemTypeId, types, 2, options)}
+`.trim()
+    }
+
+    if (formatType.type === 'Enum') {
+      const typeName = formatType.name
+      const values = formatType.values.map((value) => JSON.stringify(value))
+
+      if (exportSet.has(typeName)) {
+        throw new Error(`Duplicate Enum type name: ${typeName}`)
+      }
+
+      exportSet.add(typeName)
+
+      return `
+${getLabelComment(typeName, comments[typeId])}
+export type ${typeName} = ${values.join(' | ')}
+
+export const ${typeName}Values = [${values.join(', ')}] as const
+`.trim()
+    }
+
     if (formatType.type === 'Object' || formatType.type === 'Struct') {
       const typeName = formatType.name!
-      const fields = getFieldsType(formatType.fields, formatResult.types)
+      const fields = getFieldsType(formatType.fields, types, options)
 
       if (!typeName) {
         throw new Error(`Empty name of Object/Struct, fields: {${Object.keys(formatType.fields)}}`)
@@ -190,11 +295,12 @@ export const codegen = (formatResult: FormatResult, options?: CodegenOptions): s
 
       exportSet.add(typeName)
 
+      const declaration =
+        options.declaration === 'interface' ? `export interface ${typeName} {` : `export type ${typeName} = {`
+
       const source = `
-/**
- * @label ${typeName}
-*/
-export type ${typeName} = {
+${getLabelComment(typeName, comments[typeId])}
+${declaration}
 ${applyIndentForEachLine(fields.join(',\n'), 2)}
 }
 `
@@ -203,11 +309,9 @@ ${applyIndentForEachLine(fields.join(',\n'), 2)}
 
     if (formatType.type === 'Union') {
       const typeName = formatType.name!
-      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, formatResult.types))
+      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types, 2, options))
       const source = `
-/**
- * @label ${typeName}
-*/
+${getLabelComment(typeName, comments[typeId])}
 export type ${typeName} =
 ${applyIndentForEachLine(expression.map((item) => `| ${item}`).join('\n'), 2)}
       `
@@ -215,13 +319,23 @@ ${applyIndentForEachLine(expression.map((item) => `| ${item}`).join('\n'), 2)}
       return source.trim()
     }
 
+    if (formatType.type === 'TaggedUnion') {
+      const typeName = formatType.name!
+      const expression = getTaggedUnionItemTypes(formatType, types, options)
+      const source = `
+${getLabelComment(typeName, comments[typeId])}
+export type ${typeName} =
+${applyIndentForEachLine(expression.map((item) => `| ${item}`).join('\n'), 2)}
+`
+
+      return source.trim()
+    }
+
     if (formatType.type === 'Intersect') {
       const typeName = formatType.name!
-      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, formatResult.types))
+      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types, 2, options))
       const source = `
-/**
- * @label ${typeName}
-*/
+${getLabelComment(typeName, comments[typeId])}
 export type ${typeName} =
 ${applyIndentForEachLine(expression.map((item) => `& ${item}`).join('\n'), 2)}
 `
@@ -231,13 +345,11 @@ ${applyIndentForEachLine(expression.map((item) => `& ${item}`).join('\n'), 2)}
 
     if (formatType.type === 'Tuple') {
       const typeName = formatType.name!
-      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, formatResult.types))
+      const expression = formatType.itemTypes.map((itemType) => getFieldType(itemType.typeId, types, 2, options))
 
       return `
-/**
- * @label ${typeName}
-*/
-export type ${typeName} = [
+${getLabelComment(typeName, comments[typeId])}
+export type ${typeName} = ${options.readonly ? 'readonly ' : ''}[
 ${applyIndentForEachLine(expression.join(',\n'), 2)}
 ]
 `.trim()
@@ -246,22 +358,256 @@ ${applyIndentForEachLine(expression.join(',\n'), 2)}
     throw new Error(`Unsupported type of ${JSON.stringify(formatType, null, 2)}`)
   }
 
-  const handleTypeDeclarations = (formatTypes: FormatTypes) => {
-    const result = [] as string[]
-    for (const key in formatTypes) {
-      const formatType = formatTypes[key]
-      const formattedType = handleTypeDeclaration(formatType)
-      if (formattedType) {
-        result.push(formattedType)
+  const result = [] as string[]
+  for (const key in types) {
+    const formatType = types[key]
+    const formattedType = handleTypeDeclaration(formatType, key)
+    if (formattedType) {
+      result.push(formattedType)
+    }
+  }
+  return result
+}
+
+export type CodegenOptions = {
+  /**
+   * emit ApiClient or not
+   * default: true
+   */
+  apiClient?: boolean
+
+  /**
+   * code insert at the top of the file
+   */
+  header?: string
+
+  /**
+   * code insert at the bottom of the file
+   * */
+  footer?: string
+
+  /**
+   * emit farrow-schema definitions of named types, ApiClient can validate input/output by them
+   * the emitted code imports farrow-schema
+   * default: false
+   */
+  schemas?: boolean
+}
+
+export const DEFAULT_HEADER = `
+/**
+ * This file was generated by farrow-api
+ * Don't modify it manually
+*/
+`.trim()
+
+export const JSON_TYPE_DECLARATION = `
+export type JsonType =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | JsonType[]
+  | { toJSON(): string }
+  | { [key: string]: JsonType }
+`.trim()
+
+export const SCHEMA_IMPORT_DECLARATION = `
+import * as FarrowSchema from 'farrow-schema'
+import type { Validator } from 'farrow-schema/validator'
+import { createSchemaValidator } from 'farrow-schema/validator'
+`.trim()
+
+const getSchemaNameById = (typeId: number | string, types: FormatTypes): string => {
+  return `${getTypeName(types[typeId]) ?? getTypeNameById(typeId)}Schema`
+}
+
+/**
+ * get the farrow-schema definitions of named types and the types of typeIds
+ * named types are exported as <Name>Schema, the others are declared as Type<typeId>Schema
+ */
+export const getSchemaDeclarations = (types: FormatTypes, typeIds: number[] = []): string[] => {
+  const declarations = [] as string[]
+  const declaredSet = new Set<string>()
+
+  // the fields of Object and the item of Lazy are evaluated later, they can refer to the types declared after them
+  const getSchema = (typeId: number, deferred: boolean): string => {
+    const formatType = types[typeId]
+
+    if (!isInlineType(formatType)) {
+      if (!deferred) declare(typeId)
+      return getSchemaNameById(typeId, types)
+    }
+
+    return getInlineSchema(formatType, deferred)
+  }
+
+  const getItemsSchema = (itemTypes: { typeId: number }[], deferred: boolean): string => {
+    return itemTypes.map((itemType) => getSchema(itemType.typeId, deferred)).join(', ')
+  }
+
+  // the field descriptor, it is the schema itself unless the field has description, deprecated or default
+  const getFieldSchema = (field: FormatField, deferred: boolean): string => {
+    const schema = getSchema(field.typeId, deferred)
+    const descriptor = Object.entries({
+      description: field.description,
+      deprecated: field.deprecated,
+      default: field.default,
+    })
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+
+    if (descriptor.length === 0) {
+      return schema
+    }
+
+    return `{ ${[...descriptor, `[FarrowSchema.Type]: ${schema}`].join(', ')} }`
+  }
+
+  const getInlineSchema = (formatType: FormatType, deferred: boolean): string => {
+    switch (formatType.type) {
+      case 'Scalar': {
+        const schema = `FarrowSchema.${formatType.valueName}`
+        return formatType.brand ? `FarrowSchema.Brand(${schema}, ${JSON.stringify(formatType.brand)})` : schema
+      }
+      case 'Record': {
+        const valueSchema = getSchema(formatType.valueTypeId, deferred)
+        if (formatType.keyTypeId === undefined) return `FarrowSchema.Record(${valueSchema})`
+        return `FarrowSchema.Record(${getSchema(formatType.keyTypeId, deferred)}, ${valueSchema})`
+      }
+      case 'Literal': {
+        return `FarrowSchema.Literal(${JSON.stringify(formatType.value)})`
+      }
+      case 'Nullable':
+      case 'List':
+      case 'Strict':
+      case 'NonStrict':
+      case 'ReadOnly':
+      case 'ReadOnlyDeep': {
+        return `FarrowSchema.${formatType.type}(${getSchema(formatType.itemTypeId, deferred)})`
+      }
+      case 'Set': {
+        return `FarrowSchema.SetOf(${getSchema(formatType.itemTypeId, deferred)})`
+      }
+      case 'Map': {
+        const keySchema = getSchema(formatType.keyTypeId, deferred)
+        return `FarrowSchema.MapOf(${keySchema}, ${getSchema(formatType.valueTypeId, deferred)})`
+      }
+      case 'UnknownKeys': {
+        const itemSchema = getSchema(formatType.itemTypeId, deferred)
+        return `FarrowSchema.UnknownKeys(${itemSchema}, ${JSON.stringify(formatType.unknownKeys)})`
+      }
+      case 'Constrained': {
+        const itemSchema = getSchema(formatType.itemTypeId, deferred)
+        return `FarrowSchema.Constrained(${itemSchema}, ${JSON.stringify(formatType.constraints)})`
+      }
+      case 'Union':
+      case 'Intersect':
+      case 'Tuple': {
+        return `FarrowSchema.${formatType.type}(${getItemsSchema(formatType.itemTypes, deferred)})`
+      }
+      case 'TaggedUnion': {
+        const items = formatType.itemTypes.map(
+          (itemType) => `${JSON.stringify(itemType.value)}: ${getSchema(itemType.typeId, deferred)}`,
+        )
+        return `FarrowSchema.TaggedUnion(${JSON.stringify(formatType.tag)}, { ${items.join(', ')} })`
+      }
+      case 'Struct': {
+        const fields = Object.entries(formatType.fields)
+          .map(([key, field]) => `${key}: ${getFieldSchema(field, deferred)}`)
+          .join(',\n')
+        return `FarrowSchema.Struct({\n${applyIndentForEachLine(fields, 2)}\n})`
+      }
+      case 'Enum': {
+        const members = formatType.members ?? formatType.values
+        return `FarrowSchema.Enum(${JSON.stringify(formatType.name)}, ${JSON.stringify(members)})`
+      }
+      case 'Lazy': {
+        return `FarrowSchema.Lazy(() => ${getSchema(formatType.itemTypeId, true)})`
+      }
+      default: {
+        throw new Error(`Unsupported type of ${JSON.stringify(formatType, null, 2)}`)
       }
     }
-    return result
   }
 
-  const typeDeclarations = [JSON_TYPE_DECLARATION, ...handleTypeDeclarations(formatResult.types)]
+  const declare = (typeId: number) => {
+    const schemaName = getSchemaNameById(typeId, types)
+
+    if (declaredSet.has(schemaName)) {
+      return
+    }
+
+    declaredSet.add(schemaName)
+
+    const formatType = types[typeId]
+    const exported = isInlineType(formatType) ? '' : 'export '
+
+    if (formatType.type === 'Object') {
+      const fields = Object.entries(formatType.fields).map(([key, field]) => `${key} = ${getFieldSchema(field, true)}`)
+
+      declarations.push(
+        `
+${exported}class ${schemaName} extends FarrowSchema.ObjectType {
+${applyIndentForEachLine(fields.join('\n'), 2)}
+}
+`.trim(),
+      )
+      return
+    }
+
+    declarations.push(`${exported}const ${schemaName}: FarrowSchema.SchemaCtor = ${getInlineSchema(formatType, false)}`)
+  }
+
+  for (const typeId in types) {
+    if (!isInlineType(types[typeId])) {
+      declare(parseInt(typeId, 10))
+    }
+  }
+
+  for (const typeId of typeIds) {
+    declare(typeId)
+  }
+
+  return declarations
+}
+
+export const SCHEMA_VALIDATE_DECLARATION = `
+const validators = new Map<FarrowSchema.SchemaCtor, Validator>()
+
+const validate = (Schema: FarrowSchema.SchemaCtor, value: unknown) => {
+  let validator = validators.get(Schema)
+
+  if (!validator) {
+    validator = createSchemaValidator(Schema)
+    validators.set(Schema, validator)
+  }
+
+  const result = validator(value)
+
+  if (result.isErr) {
+    const { message, path } = result.value
+    throw new Error(path && path.length > 0 ? \`path: \${JSON.stringify(path)}\\n\${message}\` : message)
+  }
+}
+`.trim()
+
+const getApiTypeIds = (entries: FormatEntries): number[] => {
+  return Object.values(entries.entries).flatMap((entry) => {
+    return entry.type === 'Api' ? [entry.input.typeId, entry.output.typeId] : getApiTypeIds(entry)
+  })
+}
+
+export const codegen = (formatResult: FormatResult, options?: CodegenOptions): string => {
+  const typeDeclarations = [JSON_TYPE_DECLARATION, ...getTypeDeclarations(formatResult.types)]
 
   const variableDeclarations: string[] = []
 
+  if (options?.schemas) {
+    variableDeclarations.push(...getSchemaDeclarations(formatResult.types, getApiTypeIds(formatResult.entries)))
+  }
+
   if (options?.apiClient !== false) {
     typeDeclarations.push(
       `
@@ -280,18 +626,55 @@ declare global {
 `.trim(),
     )
 
+    const validation = `
+  /**
+   * validate input/output of apis by their schemas, the values are sent and returned as they are
+   */
+  validation?: {
+    input?: boolean
+    output?: boolean
+  }
+`
+
+    const validationOption = options?.schemas ? validation.trimEnd() : ''
+
     typeDeclarations.push(
       `
 export type ApiClientOptions = {
-  loader: (input: ApiClientLoaderInput, options?: ApiClientLoaderOptions) => Promise<JsonType>
+  loader: (input: ApiClientLoaderInput, options?: ApiClientLoaderOptions) => Promise<JsonType>${validationOption}
 }
 `.trim(),
     )
 
+    if (options?.schemas) {
+      variableDeclarations.push(SCHEMA_VALIDATE_DECLARATION)
+    }
+
+    const hasErrors = (api: FormatApi) => !!api.errors && Object.keys(api.errors).length > 0
+
     const handleApi = (api: FormatApi, path: string[]) => {
       const inputType = getFieldType(api.input.typeId, formatResult.types)
       const outputType = getFieldType(api.output.typeId, formatResult.types, 4)
-      return `
+      const source = options?.schemas
+        ? `
+async (input: ${inputType}, loaderOptions?: ApiClientLoaderOptions) => {
+  if (options.validation?.input) {
+    validate(${getSchemaNameById(api.input.typeId, formatResult.types)}, input)
+  }
+  const output = await options.loader(
+    {
+      path: [${path.map((item) => `'${item}'`).join(', ')}],
+      input: input as JsonType,
+    },
+    loaderOptions
+  )
+  if (options.validation?.output) {
+    validate(${getSchemaNameById(api.output.typeId, formatResult.types)}, output)
+  }
+  return output as ${outputType}
+}
+    `.trim()
+        : `
 (input: ${inputType}, loaderOptions?: ApiClientLoaderOptions) => {
   return options.loader(
     {
@@ -302,6 +685,51 @@ export type ApiClientOptions = {
   ) as Promise<${outputType}>
 }
     `.trim()
+
+      if (!api.errors || !hasErrors(api)) {
+        return source
+      }
+
+      const errors = api.errors
+      const codes = Object.keys(errors).map((code) => JSON.stringify(code))
+      const errorType = Object.keys(errors)
+        .map((code) => {
+          return `ApiClientError<${JSON.stringify(code)}, ${getFieldType(errors[code].typeId, formatResult.types)}>`
+        })
+        .join(' | ')
+
+      // the declared errors are thrown by loader, isError narrows them to the union of their types
+      const guard = `
+isError: (error: unknown): error is ${errorType} => {
+  return isApiClientError(error, [${codes.join(', ')}])
+},
+`.trim()
+
+      return `Object.assign(\n${applyIndentForEachLine(source, 2)},\n  {\n${applyIndentForEachLine(guard, 4)}\n  },\n)`
+    }
+
+    const getApis = (entries: FormatEntries): FormatApi[] => {
+      return Object.values(entries.entries).flatMap((entry) => (entry.type === 'Api' ? [entry] : getApis(entry)))
+    }
+
+    if (getApis(formatResult.entries).some(hasErrors)) {
+      typeDeclarations.push(
+        `
+export type ApiClientError<Code extends string = string, Payload = JsonType> = Error & {
+  code: Code
+  payload: Payload
+}
+`.trim(),
+      )
+
+      variableDeclarations.push(
+        `
+export const isApiClientError = (error: unknown, codes?: string[]): error is ApiClientError => {
+  const code = (error as { code?: unknown } | undefined)?.code
+  return error instanceof Error && typeof code === 'string' && (!codes || codes.includes(code))
+}
+`.trim(),
+      )
     }
 
     const handleEntries = (entries: FormatEntries, path: string[] = [], indent = 2): string => {
@@ -341,6 +769,7 @@ export const createApiClient = (options: ApiClientOptions) => {
 
   const source = [
     options?.header ?? DEFAULT_HEADER,
+    options?.schemas ? SCHEMA_IMPORT_DECLARATION : '',
     typeDeclarations.join('\n\n'),
     variableDeclarations.join('\n\n'),
     options?.footer ?? '',
@@ -0,0 +1,591 @@
+import type { Constraints } from 'farrow-schema'
+import type { FormatField, FormatFields, FormatType, FormatTypes } from 'farrow-schema/formatter'
+import type { FormatApi, FormatEntries, FormatResult } from './toJSON'
+
+/**
+ * the position of type decides which changes break old clients
+ * - input: old clients send values, the type should accept all values it accepted before
+ * - output: old clients receive values, the type should not produce values they reject
+ */
+export type TypePosition = 'input' | 'output'
+
+/**
+ * - widen: the type accepts more values than before
+ * - narrow: the type accepts fewer values than before
+ * - incompatible: the values accepted before and now are different
+ * - neutral: the change does not affect accepted values
+ */
+export type ChangeEffect = 'widen' | 'narrow' | 'incompatible' | 'neutral'
+
+export type ChangeKind =
+  | 'api-added'
+  | 'api-removed'
+  | 'type-changed'
+  | 'literal-changed'
+  | 'nullable-added'
+  | 'nullable-removed'
+  | 'field-added'
+  | 'field-removed'
+  | 'union-member-added'
+  | 'union-member-removed'
+  | 'enum-value-added'
+  | 'enum-value-removed'
+  | 'tag-changed'
+  | 'tuple-length-changed'
+  | 'constraint-changed'
+
+export type CompatibilityChange = {
+  level: 'breaking' | 'non-breaking'
+  kind: ChangeKind
+  effect: ChangeEffect
+  /**
+   * the path of api in entries
+   */
+  api: string[]
+  /**
+   * where the change is, starts with input or output
+   * fields are named by key, items of List/Set are named by [], values of Record/Map are named by {}
+   * and keys of Record/Map are named by {key}
+   */
+  location: string[]
+  message: string
+}
+
+export type CompatibilityReport = {
+  breaking: boolean
+  changes: CompatibilityChange[]
+}
+
+export type TypeSnapshot = {
+  types: FormatTypes
+  typeId: number
+}
+
+type Change = Pick<CompatibilityChange, 'kind' | 'effect' | 'location' | 'message'>
+
+const isBreaking = (effect: ChangeEffect, position: TypePosition): boolean => {
+  if (effect === 'incompatible') return true
+  if (effect === 'narrow') return position === 'input'
+  if (effect === 'widen') return position === 'output'
+  return false
+}
+
+const transparentTypes = ['Strict', 'NonStrict', 'ReadOnly', 'ReadOnlyDeep', 'Lazy', 'UnknownKeys']
+
+const getType = (types: FormatTypes, typeId: number): FormatType => {
+  const type = types[typeId]
+
+  if (!type) {
+    throw new Error(`Unknown typeId: ${typeId}`)
+  }
+
+  return type
+}
+
+/**
+ * skip the wrappers which don't affect accepted values
+ */
+const resolveTypeId = (types: FormatTypes, typeId: number): number => {
+  const type = getType(types, typeId)
+
+  if (transparentTypes.includes(type.type)) {
+    return resolveTypeId(types, (type as { itemTypeId: number }).itemTypeId)
+  }
+
+  return typeId
+}
+
+/**
+ * a stable description of type, used to match the members of unions
+ */
+const getTypeSignature = (types: FormatTypes, typeId: number, visited: number[] = []): string => {
+  const id = resolveTypeId(types, typeId)
+
+  if (visited.includes(id)) return `#${visited.indexOf(id)}`
+
+  const type = getType(types, id)
+  const next = [...visited, id]
+  const signatureOf = (itemTypeId: number) => getTypeSignature(types, itemTypeId, next)
+  const signatureOfFields = (fields: FormatFields) => {
+    return Object.keys(fields)
+      .sort()
+      .map((key) => `${key}:${signatureOf(fields[key].typeId)}`)
+      .join(',')
+  }
+
+  switch (type.type) {
+    case 'Scalar':
+      return type.valueName
+    case 'Literal':
+      return JSON.stringify(type.value)
+    case 'Enum':
+      return `Enum(${type.values.map((value) => JSON.stringify(value)).join(',')})`
+    case 'Object':
+    case 'Struct':
+      return `{${signatureOfFields(type.fields)}}`
+    case 'List':
+      return `List(${signatureOf(type.itemTypeId)})`
+    case 'Set':
+      return `Set(${signatureOf(type.itemTypeId)})`
+    case 'Map':
+      return `Map(${signatureOf(type.keyTypeId)},${signatureOf(type.valueTypeId)})`
+    case 'Record':
+      if (type.keyTypeId === undefined) return `Record(${signatureOf(type.valueTypeId)})`
+      return `Record(${signatureOf(type.keyTypeId)},${signatureOf(type.valueTypeId)})`
+    case 'Nullable':
+      return `Nullable(${signatureOf(type.itemTypeId)})`
+    case 'Constrained':
+      return `Constrained(${signatureOf(type.itemTypeId)},${JSON.stringify(type.constraints)})`
+    case 'Union':
+    case 'Intersect':
+    case 'Tuple':
+      return `${type.type}(${type.itemTypes.map((item) => signatureOf(item.typeId)).join(',')})`
+    case 'TaggedUnion':
+      return `TaggedUnion(${type.tag},${type.itemTypes
+        .map((item) => `${item.value}:${signatureOf(item.typeId)}`)
+        .join(',')})`
+    default:
+      return type.type
+  }
+}
+
+const isOptionalField = (types: FormatTypes, field: FormatField) => {
+  return field.default !== undefined || getType(types, resolveTypeId(types, field.typeId)).type === 'Nullable'
+}
+
+const describeType = (type: FormatType): string => {
+  if (type.type === 'Scalar') return type.valueName
+  if (type.type === 'Literal') return `Literal(${JSON.stringify(type.value)})`
+  return type.type
+}
+
+const describeTypeId = (types: FormatTypes, typeId: number): string => {
+  return describeType(getType(types, resolveTypeId(types, typeId)))
+}
+
+// changing between them only widens or narrows the accepted numbers
+const numberScalars = ['Int', 'Float', 'Number']
+
+const compareConstraints = (prev: Constraints, next: Constraints): ChangeEffect => {
+  let widen = false
+  let narrow = false
+
+  const compare = (prevValue: number | undefined, nextValue: number | undefined, isLowerBound: boolean) => {
+    if (prevValue === nextValue) return
+    if (nextValue === undefined) {
+      widen = true
+    } else if (prevValue === undefined) {
+      narrow = true
+    } else if (isLowerBound ? nextValue < prevValue : nextValue > prevValue) {
+      widen = true
+    } else {
+      narrow = true
+    }
+  }
+
+  compare(prev.min, next.min, true)
+  compare(prev.max, next.max, false)
+  compare(prev.minLength, next.minLength, true)
+  compare(prev.maxLength, next.maxLength, false)
+
+  for (const key of ['multipleOf', 'pattern', 'format'] as const) {
+    if (prev[key] === next[key]) continue
+    if (next[key] === undefined) {
+      widen = true
+    } else if (prev[key] === undefined) {
+      narrow = true
+    } else {
+      widen = narrow = true
+    }
+  }
+
+  if (widen && narrow) return 'incompatible'
+  if (widen) return 'widen'
+  if (narrow) return 'narrow'
+  return 'neutral'
+}
+
+/**
+ * compare the types of the same position in two snapshots
+ */
+const compareTypes = (prev: TypeSnapshot, next: TypeSnapshot, location: string[]): Change[] => {
+  const changes: Change[] = []
+  // the pairs of types being compared, recursive types stop at them
+  const comparing = new Set<string>()
+
+  const addChange = (kind: ChangeKind, effect: ChangeEffect, location: string[], message: string) => {
+    changes.push({ kind, effect, location, message })
+  }
+
+  const compare = (prevTypeId: number, nextTypeId: number, location: string[]) => {
+    const prevId = resolveTypeId(prev.types, prevTypeId)
+    const nextId = resolveTypeId(next.types, nextTypeId)
+    const key = `${prevId}:${nextId}`
+
+    if (comparing.has(key)) return
+
+    comparing.add(key)
+    compareResolved(prevId, nextId, location)
+    comparing.delete(key)
+  }
+
+  const compareResolved = (prevId: number, nextId: number, location: string[]) => {
+    const prevType = getType(prev.types, prevId)
+    const nextType = getType(next.types, nextId)
+
+    if (prevType.type === 'Nullable' && nextType.type !== 'Nullable') {
+      addChange('nullable-removed', 'narrow', location, `Nullable was removed`)
+      compare(prevType.itemTypeId, nextId, location)
+      return
+    }
+
+    if (prevType.type !== 'Nullable' && nextType.type === 'Nullable') {
+      addChange('nullable-added', 'widen', location, `Nullable was added`)
+      compare(prevId, nextType.itemTypeId, location)
+      return
+    }
+
+    if (prevType.type === 'Constrained' || nextType.type === 'Constrained') {
+      const prevConstraints = prevType.type === 'Constrained' ? prevType.constraints : {}
+      const nextConstraints = nextType.type === 'Constrained' ? nextType.constraints : {}
+      const effect = compareConstraints(prevConstraints, nextConstraints)
+
+      if (effect !== 'neutral') {
+        addChange(
+          'constraint-changed',
+          effect,
+          location,
+          `constraints changed from ${JSON.stringify(prevConstraints)} to ${JSON.stringify(nextConstraints)}`,
+        )
+      }
+
+      compare(
+        prevType.type === 'Constrained' ? prevType.itemTypeId : prevId,
+        nextType.type === 'Constrained' ? nextType.itemTypeId : nextId,
+        location,
+      )
+      return
+    }
+
+    // a type becomes a member of union, or a union is reduced to one of its members
+    if (prevType.type !== 'Union' && nextType.type === 'Union') {
+      const signature = getTypeSignature(prev.types, prevId)
+      const members = nextType.itemTypes.filter((item) => getTypeSignature(next.types, item.typeId) !== signature)
+
+      if (members.length < nextType.itemTypes.length) {
+        for (const item of members) {
+          const member = describeTypeId(next.types, item.typeId)
+          addChange('union-member-added', 'widen', location, `union member ${member} was added`)
+        }
+        return
+      }
+    }
+
+    if (prevType.type === 'Union' && nextType.type !== 'Union') {
+      const signature = getTypeSignature(next.types, nextId)
+      const members = prevType.itemTypes.filter((item) => getTypeSignature(prev.types, item.typeId) !== signature)
+
+      if (members.length < prevType.itemTypes.length) {
+        for (const item of members) {
+          const member = describeTypeId(prev.types, item.typeId)
+          addChange('union-member-removed', 'narrow', location, `union member ${member} was removed`)
+        }
+        return
+      }
+    }
+
+    const isObject = (type: FormatType) => type.type === 'Object' || type.type === 'Struct'
+
+    if (prevType.type !== nextType.type && !(isObject(prevType) && isObject(nextType))) {
+      addChange(
+        'type-changed',
+        'incompatible',
+        location,
+        `type changed from ${describeType(prevType)} to ${describeType(nextType)}`,
+      )
+      return
+    }
+
+    if (prevType.type === 'Scalar' && nextType.type === 'Scalar') {
+      if (prevType.valueName === nextType.valueName) return
+
+      const prevIndex = numberScalars.indexOf(prevType.valueName)
+      const nextIndex = numberScalars.indexOf(nextType.valueName)
+      const effect =
+        prevIndex === -1 || nextIndex === -1
+          ? 'incompatible'
+          : prevIndex === 0 && nextIndex > 0
+          ? 'widen'
+          : prevIndex > 0 && nextIndex === 0
+          ? 'narrow'
+          : 'neutral'
+
+      if (effect !== 'neutral') {
+        addChange('type-changed', effect, location, `type changed from ${prevType.valueName} to ${nextType.valueName}`)
+      }
+      return
+    }
+
+    if (prevType.type === 'Literal' && nextType.type === 'Literal') {
+      if (prevType.value !== nextType.value) {
+        addChange(
+          'literal-changed',
+          'incompatible',
+          location,
+          `literal changed from ${JSON.stringify(prevType.value)} to ${JSON.stringify(nextType.value)}`,
+        )
+      }
+      return
+    }
+
+    if (prevType.type === 'Enum' && nextType.type === 'Enum') {
+      for (const value of prevType.values) {
+        if (!nextType.values.includes(value)) {
+          addChange('enum-value-removed', 'narrow', location, `enum value ${JSON.stringify(value)} was removed`)
+        }
+      }
+      for (const value of nextType.values) {
+        if (!prevType.values.includes(value)) {
+          addChange('enum-value-added', 'widen', location, `enum value ${JSON.stringify(value)} was added`)
+        }
+      }
+      return
+    }
+
+    if (isObject(prevType) && isObject(nextType)) {
+      const prevFields = (prevType as { fields: FormatFields }).fields
+      const nextFields = (nextType as { fields: FormatFields }).fields
+
+      for (const key in prevFields) {
+        const fieldLocation = [...location, key]
+
+        if (!Object.prototype.hasOwnProperty.call(nextFields, key)) {
+          if (isOptionalField(prev.types, prevFields[key])) {
+            addChange('field-removed', 'neutral', fieldLocation, `optional field ${key} was removed`)
+          } else {
+            addChange('field-removed', 'widen', fieldLocation, `required field ${key} was removed`)
+          }
+          continue
+        }
+
+        compare(prevFields[key].typeId, nextFields[key].typeId, fieldLocation)
+      }
+
+      for (const key in nextFields) {
+        if (Object.prototype.hasOwnProperty.call(prevFields, key)) continue
+
+        const fieldLocation = [...location, key]
+
+        if (isOptionalField(next.types, nextFields[key])) {
+          addChange('field-added', 'neutral', fieldLocation, `optional field ${key} was added`)
+        } else {
+          addChange('field-added', 'narrow', fieldLocation, `required field ${key} was added`)
+        }
+      }
+      return
+    }
+
+    if (prevType.type === 'List' && nextType.type === 'List') {
+      compare(prevType.itemTypeId, nextType.itemTypeId, [...location, '[]'])
+      return
+    }
+
+    if (prevType.type === 'Record' && nextType.type === 'Record') {
+      if (prevType.keyTypeId !== undefined && nextType.keyTypeId !== undefined) {
+        compare(prevType.keyTypeId, nextType.keyTypeId, [...location, '{key}'])
+      } else if (prevType.keyTypeId !== undefined) {
+        addChange('type-changed', 'widen', [...location, '{key}'], `keys changed to string`)
+      } else if (nextType.keyTypeId !== undefined) {
+        addChange('type-changed', 'narrow', [...location, '{key}'], `keys changed from string`)
+      }
+      compare(prevType.valueTypeId, nextType.valueTypeId, [...location, '{}'])
+      return
+    }
+
+    if (prevType.type === 'Set' && nextType.type === 'Set') {
+      compare(prevType.itemTypeId, nextType.itemTypeId, [...location, '[]'])
+      return
+    }
+
+    if (prevType.type === 'Map' && nextType.type === 'Map') {
+      compare(prevType.keyTypeId, nextType.keyTypeId, [...location, '{key}'])
+      compare(prevType.valueTypeId, nextType.valueTypeId, [...location, '{}'])
+      return
+    }
+
+    if (prevType.type === 'Tuple' && nextType.type === 'Tuple') {
+      if (prevType.itemTypes.length !== nextType.itemTypes.length) {
+        addChange(
+          'tuple-length-changed',
+          'incompatible',
+          location,
+          `tuple length changed from ${prevType.itemTypes.length} to ${nextType.itemTypes.length}`,
+        )
+        return
+      }
+
+      prevType.itemTypes.forEach((item, index) => {
+        compare(item.typeId, nextType.itemTypes[index].typeId, [...location, `${index}`])
+      })
+      return
+    }
+
+    if (prevType.type === 'Intersect' && nextType.type === 'Intersect') {
+      if (prevType.itemTypes.length !== nextType.itemTypes.length) {
+        addChange('type-changed', 'incompatible', location, `the items of Intersect changed`)
+        return
+      }
+
+      prevType.itemTypes.forEach((item, index) => {
+        compare(item.typeId, nextType.itemTypes[index].typeId, location)
+      })
+      return
+    }
+
+    if (prevType.type === 'TaggedUnion' && nextType.type === 'TaggedUnion') {
+      if (prevType.tag !== nextType.tag) {
+        addChange('tag-changed', 'incompatible', location, `tag changed from ${prevType.tag} to ${nextType.tag}`)
+        return
+      }
+
+      for (const item of prevType.itemTypes) {
+        const nextItem = nextType.itemTypes.find((nextItem) => nextItem.value === item.value)
+
+        if (!nextItem) {
+          addChange('union-member-removed', 'narrow', location, `union member ${item.value} was removed`)
+          continue
+        }
+
+        compare(item.typeId, nextItem.typeId, [...location, item.value])
+      }
+
+      for (const item of nextType.itemTypes) {
+        if (!prevType.itemTypes.some((prevItem) => prevItem.value === item.value)) {
+          addChange('union-member-added', 'widen', location, `union member ${item.value} was added`)
+        }
+      }
+      return
+    }
+
+    if (prevType.type === 'Union' && nextType.type === 'Union') {
+      const prevSignatures = prevType.itemTypes.map((item) => getTypeSignature(prev.types, item.typeId))
+      const nextSignatures = nextType.itemTypes.map((item) => getTypeSignature(next.types, item.typeId))
+
+      prevSignatures.forEach((signature, index) => {
+        if (!nextSignatures.includes(signature)) {
+          const member = describeTypeId(prev.types, prevType.itemTypes[index].typeId)
+          addChange('union-member-removed', 'narrow', location, `union member ${member} was removed`)
+        }
+      })
+
+      nextSignatures.forEach((signature, index) => {
+        if (!prevSignatures.includes(signature)) {
+          const member = describeTypeId(next.types, nextType.itemTypes[index].typeId)
+          addChange('union-member-added', 'widen', location, `union member ${member} was added`)
+        }
+      })
+    }
+  }
+
+  compare(prev.typeId, next.typeId, location)
+
+  return changes
+}
+
+/**
+ * check if the type in next snapshot is compatible with the one in prev snapshot
+ */
+export const checkTypeCompatibility = (
+  prev: TypeSnapshot,
+  next: TypeSnapshot,
+  position: TypePosition,
+): CompatibilityReport => {
+  const changes = compareTypes(prev, next, [position]).map(
+    ({ kind, effect, location, message }): CompatibilityChange => ({
+      level: isBreaking(effect, position) ? 'breaking' : 'non-breaking',
+      kind,
+      effect,
+      api: [],
+      location,
+      message,
+    }),
+  )
+
+  return {
+    breaking: changes.some((change) => change.level === 'breaking'),
+    changes,
+  }
+}
+
+const getApis = (formatEntries: FormatEntries, path: string[] = []): [string[], FormatApi][] => {
+  const apis: [string[], FormatApi][] = []
+
+  for (const key in formatEntries.entries) {
+    const entry = formatEntries.entries[key]
+
+    if (entry.type === 'Api') {
+      apis.push([[...path, key], entry])
+    } else {
+      apis.push(...getApis(entry, [...path, key]))
+    }
+  }
+
+  return apis
+}
+
+/**
+ * check if the apis in next result are compatible with the clients of prev result
+ */
+export const checkCompatibility = (prev: FormatResult, next: FormatResult): CompatibilityReport => {
+  const changes: CompatibilityChange[] = []
+  const prevApis = getApis(prev.entries)
+  const nextApis = getApis(next.entries)
+
+  const findApi = (apis: [string[], FormatApi][], path: string[]) => {
+    return apis.find(([apiPath]) => apiPath.join('.') === path.join('.'))?.[1]
+  }
+
+  for (const [path, prevApi] of prevApis) {
+    const nextApi = findApi(nextApis, path)
+
+    if (!nextApi) {
+      changes.push({
+        level: 'breaking',
+        kind: 'api-removed',
+        effect: 'incompatible',
+        api: path,
+        location: [],
+        message: `api ${path.join('.')} was removed`,
+      })
+      continue
+    }
+
+    for (const position of ['input', 'output'] as const) {
+      const report = checkTypeCompatibility(
+        { types: prev.types, typeId: prevApi[position].typeId },
+        { types: next.types, typeId: nextApi[position].typeId },
+        position,
+      )
+
+      changes.push(...report.changes.map((change) => ({ ...change, api: path })))
+    }
+  }
+
+  for (const [path] of nextApis) {
+    if (!findApi(prevApis, path)) {
+      changes.push({
+        level: 'non-breaking',
+        kind: 'api-added',
+        effect: 'neutral',
+        api: path,
+        location: [],
+        message: `api ${path.join('.')} was added`,
+      })
+    }
+  }
+
+  return {
+    breaking: changes.some((change) => change.level === 'breaking'),
+    changes,
+  }
+}
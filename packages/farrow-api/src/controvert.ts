@@ -13,6 +13,7 @@ import {
   ObjectType,
   FieldDescriptor,
   Union,
+  TaggedUnion,
   Intersect,
   Struct,
   FieldDescriptors,
@@ -20,13 +21,23 @@ import {
   List,
   Tuple,
   Literal,
+  Enum,
   Nullable,
   Strict,
   NonStrict,
+  UnknownKeys,
   ReadOnly,
   ReadOnlyDeep,
+  Constrained,
+  Lazy,
+  Brand,
+  BigInt,
+  Bytes,
+  Url,
+  SetOf,
+  MapOf,
 } from 'farrow-schema'
-import { Api, ApiEntries, ApiType } from './api'
+import { Api, ApiDefinition, ApiEntries, ApiErrorDefinitions, ApiType } from './api'
 import type {
   FormatTypes,
   FormatType,
@@ -35,17 +46,24 @@ import type {
   FormatFields,
   FormatField,
   FormatUnionType,
+  FormatTaggedUnionType,
   FormatIntersectType,
   FormatStructType,
   FormatRecordType,
   FormatListType,
+  FormatSetType,
+  FormatMapType,
   FormatTupleType,
   FormatLiteralType,
+  FormatEnumType,
   FormatNullableType,
   FormatStrictType,
   FormatNonStrictType,
+  FormatUnknownKeysType,
   FormatReadOnlyType,
   FormatReadonlyDeepType,
+  FormatConstrainedType,
+  FormatLazyType,
 } from 'farrow-schema/formatter'
 import type { FormatResult, FormatEntries, FormatApi } from './toJSON'
 
@@ -71,12 +89,29 @@ export const controvertEntries = (input: FormatResult): ApiEntries => {
   }
 
   const controvertApi = (input: FormatApi): ApiType => {
-    return Api({
+    const definition: ApiDefinition = {
       input: controvertFieldType(input.input),
       output: controvertFieldType(input.output),
       description: input.description,
       deprecated: input.deprecated,
-    })
+      tags: input.tags,
+      // the wire values of examples are encoded as they are
+      examples: input.examples,
+      scopes: input.scopes,
+      internal: input.internal,
+    }
+
+    if (input.errors) {
+      const errors: ApiErrorDefinitions = {}
+
+      for (const code in input.errors) {
+        errors[code] = controvertFieldType(input.errors[code])
+      }
+
+      definition.errors = errors
+    }
+
+    return Api(definition)
   }
 
   const controvertEntries = (input: FormatEntries): ApiEntries => {
@@ -109,6 +144,9 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
       case 'Union': {
         return controvertUnionType(input)
       }
+      case 'TaggedUnion': {
+        return controvertTaggedUnionType(input)
+      }
       case 'Intersect': {
         return controvertIntersectType(input)
       }
@@ -121,12 +159,21 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
       case 'List': {
         return controvertListType(input)
       }
+      case 'Set': {
+        return controvertSetType(input)
+      }
+      case 'Map': {
+        return controvertMapType(input)
+      }
       case 'Tuple': {
         return controvertTupleType(input)
       }
       case 'Literal': {
         return controvertLiteralType(input)
       }
+      case 'Enum': {
+        return controvertEnumType(input)
+      }
       case 'Nullable': {
         return controvertNullableType(input)
       }
@@ -136,12 +183,21 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
       case 'NonStrict': {
         return controvertNonStrictType(input)
       }
+      case 'UnknownKeys': {
+        return controvertUnknownKeysType(input)
+      }
       case 'ReadOnly': {
         return controvertReadOnlyType(input)
       }
       case 'ReadOnlyDeep': {
         return controvertReadOnlyDeepType(input)
       }
+      case 'Constrained': {
+        return controvertConstrainedType(input)
+      }
+      case 'Lazy': {
+        return controvertLazyType(input)
+      }
       // for eslint
       default: {
         throw new Error(`Unknown format type: ${input}`)
@@ -150,6 +206,12 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
   }
 
   const controvertScalarType = (input: FormatScalarType): SchemaCtor => {
+    const Scalar = controvertScalarValue(input)
+
+    return input.brand ? Brand(Scalar, input.brand) : Scalar
+  }
+
+  const controvertScalarValue = (input: FormatScalarType): SchemaCtor => {
     switch (input.valueName) {
       case 'String':
         return String
@@ -165,6 +227,12 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
         return Boolean
       case 'Date':
         return Date
+      case 'BigInt':
+        return BigInt
+      case 'Bytes':
+        return Bytes
+      case 'Url':
+        return Url
       case 'Unknown':
         return Unknown
       case 'Any':
@@ -206,6 +274,7 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
       __type: findType(input.typeId),
       description: input.description,
       deprecated: input.deprecated,
+      default: input.default,
     }
   }
 
@@ -214,6 +283,14 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
     return Union(...items)
   }
 
+  const controvertTaggedUnionType = (input: FormatTaggedUnionType): SchemaCtor => {
+    const items: { [key: string]: SchemaCtorInput } = {}
+    for (const { value, typeId } of input.itemTypes) {
+      items[value] = findType(typeId)
+    }
+    return TaggedUnion(input.tag, items)
+  }
+
   const controvertIntersectType = (input: FormatIntersectType): SchemaCtor => {
     const items: SchemaCtorInput[] = input.itemTypes.map(({ typeId }) => findType(typeId))
     return Intersect(...items)
@@ -226,7 +303,8 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
 
   const controvertRecordType = (input: FormatRecordType): SchemaCtor => {
     const item = findType(input.valueTypeId)
-    return Record(item)
+    if (input.keyTypeId === undefined) return Record(item)
+    return Record(findType(input.keyTypeId), item)
   }
 
   const controvertListType = (input: FormatListType): SchemaCtor => {
@@ -234,6 +312,17 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
     return List(item)
   }
 
+  const controvertSetType = (input: FormatSetType): SchemaCtor => {
+    const item = findType(input.itemTypeId)
+    return SetOf(item)
+  }
+
+  const controvertMapType = (input: FormatMapType): SchemaCtor => {
+    const key = findType(input.keyTypeId)
+    const value = findType(input.valueTypeId)
+    return MapOf(key, value)
+  }
+
   const controvertTupleType = (input: FormatTupleType): SchemaCtor => {
     const items: SchemaCtorInput[] = input.itemTypes.map(({ typeId }) => findType(typeId))
     return Tuple(...items)
@@ -243,6 +332,10 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
     return Literal(input.value)
   }
 
+  const controvertEnumType = (input: FormatEnumType): SchemaCtor => {
+    return Enum(input.name, input.members ?? input.values)
+  }
+
   const controvertNullableType = (input: FormatNullableType): SchemaCtor => {
     const item = findType(input.itemTypeId)
     return Nullable(item)
@@ -258,6 +351,11 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
     return NonStrict(item)
   }
 
+  const controvertUnknownKeysType = (input: FormatUnknownKeysType): SchemaCtor => {
+    const item = findType(input.itemTypeId)
+    return UnknownKeys(item, input.unknownKeys)
+  }
+
   const controvertReadOnlyType = (input: FormatReadOnlyType): SchemaCtor => {
     const item = findType(input.itemTypeId)
     return ReadOnly(item)
@@ -268,20 +366,49 @@ export const controvertTypes = (input: FormatTypes): Map<string, SchemaCtor> =>
     return ReadOnlyDeep(item)
   }
 
+  const controvertConstrainedType = (input: FormatConstrainedType): SchemaCtor => {
+    const item = findType(input.itemTypeId)
+    return Constrained(item, input.constraints)
+  }
+
+  const controvertLazyType = (input: FormatLazyType): SchemaCtor => {
+    const Item = Lazy(() => findType(input.itemTypeId))
+    Item.displayName = input.name
+    return Item
+  }
+
+  // types may refer to the types after them, so they are controverted on demand
   const findType = (typeId: number): SchemaCtor => {
-    const schemaCtor = types.get(typeId.toString())
+    const id = typeId.toString()
+    const schemaCtor = types.get(id)
 
-    if (!schemaCtor) {
+    if (schemaCtor) {
+      return schemaCtor
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(input, id)) {
       throw new Error(`Unknown typeId: ${typeId}`)
     }
 
-    return schemaCtor
+    // the type refers to itself, like the fields of recursive ObjectType
+    if (controverting.has(id)) {
+      return Lazy(() => findType(typeId))
+    }
+
+    controverting.add(id)
+    const result = controvertType(input[id])
+    controverting.delete(id)
+
+    types.set(id, result)
+
+    return result
   }
 
   const types = new Map<string, SchemaCtor>()
+  const controverting = new Set<string>()
 
   for (const id in input) {
-    types.set(id, controvertType(input[id]))
+    findType(parseInt(id, 10))
   }
 
   return types
@@ -0,0 +1,81 @@
+import { toSchemaCtor, SchemaCtorInput } from 'farrow-schema'
+import { Formatter, FormatTypes, FormatType, FormatContext, isNamedFormatType } from 'farrow-schema/formatter'
+import { getContentType, getTypeDescription, getTypeDeprecated, Typeable } from './api'
+import {
+  getFieldType,
+  getLabelComment,
+  getTypeDeclarations,
+  TypeComment,
+  TypeDeclarationOptions,
+  JSON_TYPE_DECLARATION,
+} from './codegen'
+
+export type PrintTypesOptions = TypeDeclarationOptions & {
+  /**
+   * code insert at the top of the file
+   */
+  header?: string
+}
+
+export type TypeableSchemas = {
+  [name: string]: Typeable<SchemaCtorInput>
+}
+
+/**
+ * print the declarations of schemas, each key names the declaration of its schema
+ * the named types referred by schemas, like ObjectType, Enum or Lazy, are declared by their own names
+ */
+export const printTypes = (schemas: TypeableSchemas, options?: PrintTypesOptions): string => {
+  const types: FormatTypes = {}
+
+  let uid = 0
+
+  const addType = (type: FormatType): number => {
+    const id = uid++
+    types[`${id}`] = type
+    return id
+  }
+
+  const context: FormatContext = {
+    addType,
+    formatCache: new WeakMap(),
+  }
+
+  const comments: { [typeId: string]: TypeComment } = {}
+
+  const aliases: { name: string; typeId: number; comment: TypeComment }[] = []
+
+  for (const name in schemas) {
+    const typeable = schemas[name]
+    const { typeId } = Formatter.format(toSchemaCtor(getContentType(typeable)), context)
+    const formatType = types[typeId]
+    const comment = {
+      remarks: getTypeDescription(typeable),
+      deprecated: getTypeDeprecated(typeable),
+    }
+
+    // unnamed types take the key as their names, so other types refer to them by name too
+    if (isNamedFormatType(formatType) && !formatType.name) {
+      types[typeId] = { ...formatType, name }
+      comments[typeId] = comment
+    } else if (isNamedFormatType(formatType) && formatType.name === name && !comments[typeId]) {
+      comments[typeId] = comment
+    } else {
+      aliases.push({ name, typeId, comment })
+    }
+  }
+
+  const declarations = getTypeDeclarations(types, options, comments)
+
+  for (const { name, typeId, comment } of aliases) {
+    declarations.push(
+      `${getLabelComment(name, comment)}\nexport type ${name} = ${getFieldType(typeId, types, 2, options)}`,
+    )
+  }
+
+  const usesJsonType = Object.values(types).some((type) => type.type === 'Scalar' && type.valueType === 'JsonType')
+
+  return (
+    [options?.header, usesJsonType ? JSON_TYPE_DECLARATION : '', ...declarations].filter(Boolean).join('\n\n') + '\n'
+  )
+}
@@ -1,5 +1,6 @@
-import { toSchemaCtor, SchemaCtorInput } from 'farrow-schema'
+import { toSchemaCtor, SchemaCtorInput, JsonType } from 'farrow-schema'
 import { Formatter, FormatTypes, FormatField, FormatType, FormatContext } from 'farrow-schema/formatter'
+import { encode } from 'farrow-schema/encoder'
 import { ApiType, ApiEntries, getContentType, getTypeDescription, getTypeDeprecated, Typeable } from './api'
 
 export type FormatApi = {
@@ -8,6 +9,25 @@ export type FormatApi = {
   deprecated?: string
   input: FormatField
   output: FormatField
+  /**
+   * the payloads of declared errors, keyed by error code
+   */
+  errors?: {
+    [code: string]: FormatField
+  }
+  tags?: string[]
+  /**
+   * the input/output of examples are encoded to wire values
+   */
+  examples?: FormatApiExample[]
+  scopes?: string[]
+  internal?: boolean
+}
+
+export type FormatApiExample = {
+  description?: string
+  input: JsonType
+  output: JsonType
 }
 
 export type FormatEntries = {
@@ -27,7 +47,20 @@ const isApiType = (input: any): input is ApiType => {
   return input?.type === 'Api'
 }
 
-export const toJSON = (apiEntries: ApiEntries): FormatResult => {
+export type ToJSONOptions = {
+  /**
+   * include internal apis or not
+   * default: true
+   */
+  internal?: boolean
+}
+
+export const toJSON = (apiEntries: ApiEntries, options: ToJSONOptions = {}): FormatResult => {
+  const config = {
+    internal: true,
+    ...options,
+  }
+
   const types: FormatTypes = {}
 
   let uid = 0
@@ -56,12 +89,39 @@ export const toJSON = (apiEntries: ApiEntries): FormatResult => {
   }
 
   const formatApiType = (apiType: ApiType): FormatApi => {
+    const { definition } = apiType
     const formatEntry: FormatApi = {
       type: 'Api' as const,
-      input: formatTypeable(apiType.definition.input),
-      output: formatTypeable(apiType.definition.output),
-      description: apiType.definition.description,
-      deprecated: apiType.definition.deprecated,
+      input: formatTypeable(definition.input),
+      output: formatTypeable(definition.output),
+      description: definition.description,
+      deprecated: definition.deprecated,
+      tags: definition.tags,
+      scopes: definition.scopes,
+      internal: definition.internal,
+    }
+
+    if (definition.examples) {
+      const InputSchema = toSchemaCtor(getContentType(definition.input))
+      const OutputSchema = toSchemaCtor(getContentType(definition.output))
+
+      formatEntry.examples = definition.examples.map((example) => {
+        return {
+          description: example.description,
+          input: encode(InputSchema, example.input) as JsonType,
+          output: encode(OutputSchema, example.output) as JsonType,
+        }
+      })
+    }
+
+    if (definition.errors) {
+      const errors: FormatApi['errors'] = {}
+
+      for (const code in definition.errors) {
+        errors[code] = formatTypeable(definition.errors[code])
+      }
+
+      formatEntry.errors = errors
     }
 
     return formatEntry
@@ -77,9 +137,17 @@ export const toJSON = (apiEntries: ApiEntries): FormatResult => {
     for (const key in apiEntries) {
       const item = apiEntries[key]
       if (isApiType(item)) {
+        if (!config.internal && item.definition.internal) {
+          continue
+        }
         entries[key] = formatApiType(item)
       } else {
-        entries[key] = formatApiEntries(item)
+        const itemEntries = formatApiEntries(item)
+        // hide the entries whose apis are all internal
+        if (!config.internal && Object.keys(itemEntries.entries).length === 0) {
+          continue
+        }
+        entries[key] = itemEntries
       }
     }
 
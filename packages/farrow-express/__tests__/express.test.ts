@@ -823,6 +823,8 @@ describe('Express', () => {
           error: {
             path: ['params', 'age'],
             message: 'abc is not an integer',
+            code: 'invalid_type',
+            params: { expected: 'integer', received: 'abc' },
           },
         })
 
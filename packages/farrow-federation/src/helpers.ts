@@ -49,6 +49,21 @@ export const updateType = (type: FormatType, base: number): FormatType => {
         itemTypes,
       }
     }
+    case 'TaggedUnion': {
+      const itemTypes = type.itemTypes.map((type) => {
+        const typeId = type.typeId + base
+        return {
+          ...type,
+          typeId,
+          $ref: `#/types/${typeId}`,
+        }
+      })
+
+      return {
+        ...type,
+        itemTypes,
+      }
+    }
     case 'Struct': {
       return {
         ...type,
@@ -56,9 +71,11 @@ export const updateType = (type: FormatType, base: number): FormatType => {
       }
     }
     case 'Record': {
+      const keyTypeId = type.keyTypeId === undefined ? undefined : type.keyTypeId + base
       const valueTypeId = type.valueTypeId + base
       return {
         ...type,
+        keyTypeId,
         valueTypeId,
         $ref: `#/types/${valueTypeId}`,
       }
@@ -71,9 +88,30 @@ export const updateType = (type: FormatType, base: number): FormatType => {
         $ref: `#/types/${itemTypeId}`,
       }
     }
+    case 'Set': {
+      const itemTypeId = type.itemTypeId + base
+      return {
+        ...type,
+        itemTypeId,
+        $ref: `#/types/${itemTypeId}`,
+      }
+    }
+    case 'Map': {
+      const keyTypeId = type.keyTypeId + base
+      const valueTypeId = type.valueTypeId + base
+      return {
+        ...type,
+        keyTypeId,
+        valueTypeId,
+        $ref: `#/types/${valueTypeId}`,
+      }
+    }
     case 'Literal': {
       return type
     }
+    case 'Enum': {
+      return type
+    }
     case 'Nullable': {
       const itemTypeId = type.itemTypeId + base
       return {
@@ -128,6 +166,14 @@ export const updateType = (type: FormatType, base: number): FormatType => {
         $ref: `#/types/${itemTypeId}`,
       }
     }
+    case 'UnknownKeys': {
+      const itemTypeId = type.itemTypeId + base
+      return {
+        ...type,
+        itemTypeId,
+        $ref: `#/types/${itemTypeId}`,
+      }
+    }
     case 'ReadOnly': {
       const itemTypeId = type.itemTypeId + base
       return {
@@ -144,6 +190,22 @@ export const updateType = (type: FormatType, base: number): FormatType => {
         $ref: `#/types/${itemTypeId}`,
       }
     }
+    case 'Constrained': {
+      const itemTypeId = type.itemTypeId + base
+      return {
+        ...type,
+        itemTypeId,
+        $ref: `#/types/${itemTypeId}`,
+      }
+    }
+    case 'Lazy': {
+      const itemTypeId = type.itemTypeId + base
+      return {
+        ...type,
+        itemTypeId,
+        $ref: `#/types/${itemTypeId}`,
+      }
+    }
     default: {
       throw new Error(`Unknown type: ${(type as FormatType).type} of FormatType`)
     }
@@ -155,6 +217,7 @@ export const updateApi = (api: FormatApi, base: number): FormatApi => {
     ...api,
     input: updateField(api.input, base),
     output: updateField(api.output, base),
+    ...(api.errors && { errors: updateFields(api.errors, base) }),
   }
 }
 
@@ -5,6 +5,7 @@ import path from 'path'
 import { Stream } from 'stream'
 
 import { Nullable } from 'farrow-schema'
+import { AsyncValidatorType } from 'farrow-schema/validator'
 import { createContext } from 'farrow-pipeline'
 
 import {
@@ -813,6 +814,8 @@ describe('Http', () => {
           error: {
             path: ['params', 'age'],
             message: 'abc is not an integer',
+            code: 'invalid_type',
+            params: { expected: 'integer', received: 'abc' },
           },
         })
 
@@ -825,6 +828,139 @@ describe('Http', () => {
 
       expect(count).toBe(1)
     })
+
+    it('should report all schema errors if options.abortEarly is false', async () => {
+      const http = createHttp({
+        errorStack: false,
+      })
+      const server = http.server()
+
+      http
+        .get(
+          '/catch/<name:string>/<age:int>?<count:int>',
+          {},
+          {
+            abortEarly: false,
+            onSchemaError: (error) => {
+              return Response.json({
+                error,
+              })
+            },
+          },
+        )
+        .use((request) => {
+          return Response.json(request.params)
+        })
+
+      http.get('/all/<age:int>?<count:int>', {}, { abortEarly: false }).use((request) => {
+        return Response.json(request.params)
+      })
+
+      await request(server)
+        .get('/catch/farrow/abc?count=efg')
+        .expect(200, {
+          error: {
+            path: ['params', 'age'],
+            message: 'abc is not an integer',
+            code: 'invalid_type',
+            params: { expected: 'integer', received: 'abc' },
+            errors: [
+              {
+                path: ['params', 'age'],
+                message: 'abc is not an integer',
+                code: 'invalid_type',
+                params: { expected: 'integer', received: 'abc' },
+              },
+              {
+                path: ['query', 'count'],
+                message: 'efg is not an integer',
+                code: 'invalid_type',
+                params: { expected: 'integer', received: 'efg' },
+              },
+            ],
+          },
+        })
+
+      await request(server)
+        .get('/all/abc?count=efg')
+        .expect(400, 'path: ["params","age"]\nabc is not an integer\npath: ["query","count"]\nefg is not an integer')
+    })
+
+    it('supports validating request by compiled validator', async () => {
+      const http = createHttp({
+        errorStack: false,
+      })
+      const server = http.server()
+
+      http.get('/compiled/<name:string>/<age:int>?<count:int>', {}, { compile: true }).use((request) => {
+        return Response.json({
+          params: request.params,
+          query: request.query,
+        })
+      })
+
+      http.get('/compiled-all/<age:int>?<count:int>', {}, { compile: true, abortEarly: false }).use((request) => {
+        return Response.json(request.params)
+      })
+
+      await request(server)
+        .get('/compiled/farrow/20?count=1')
+        .expect(200, {
+          params: {
+            name: 'farrow',
+            age: 20,
+          },
+          query: {
+            count: 1,
+          },
+        })
+
+      await request(server)
+        .get('/compiled/farrow/abc?count=1')
+        .expect(400, 'path: ["params","age"]\nabc is not an integer')
+
+      await request(server)
+        .get('/compiled-all/abc?count=efg')
+        .expect(400, 'path: ["params","age"]\nabc is not an integer\npath: ["query","count"]\nefg is not an integer')
+    })
+
+    it('supports validating request by async validator', async () => {
+      const http = createHttp({
+        errorStack: false,
+      })
+      const server = http.server()
+
+      class UserId extends AsyncValidatorType<number> {
+        async validateAsync(input: unknown) {
+          const id = Number(input)
+
+          await delay(1)
+
+          if (id === 1) {
+            return this.Ok(id)
+          }
+
+          return this.Err(`user ${input} was not found`)
+        }
+      }
+
+      http
+        .match({
+          pathname: '/users/:id',
+          params: {
+            id: UserId,
+          },
+        })
+        .use((request) => {
+          return Response.json(request.params)
+        })
+
+      await request(server).get('/users/1').expect(200, {
+        id: 1,
+      })
+
+      await request(server).get('/users/2').expect(400, 'path: ["params","id"]\nuser 2 was not found')
+    })
   })
 
   describe('Request', () => {
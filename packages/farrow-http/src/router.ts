@@ -12,8 +12,14 @@ import {
   Middleware,
 } from 'farrow-pipeline'
 import * as Schema from 'farrow-schema'
-import type { ValidationError } from 'farrow-schema/validator'
-import { Validator, createSchemaValidator } from 'farrow-schema/validator'
+import type { ValidationError, ValidationResult, ValidatorOptions, AsyncValidator } from 'farrow-schema/validator'
+import {
+  Validator,
+  createSchemaValidator,
+  createAsyncSchemaValidator,
+  getValidationErrors,
+} from 'farrow-schema/validator'
+import { compileValidator } from 'farrow-schema/compiler'
 
 import { route as createRoute } from './basenames'
 import { MaybeAsyncResponse, matchBodyType, Response } from './response'
@@ -76,7 +82,14 @@ export type TypeOfUrlSchema<T extends RouterUrlSchema> = MarkReadOnlyDeep<
   }
 >
 
-const createRequestSchemaValidatorAndMatcher = <T extends RouterRequestSchema>(schema: T) => {
+type SchemaValidatorOptions = ValidatorOptions & {
+  compile?: boolean
+}
+
+const createRequestSchemaValidatorAndMatcher = <T extends RouterRequestSchema>(
+  schema: T,
+  options?: SchemaValidatorOptions,
+) => {
   const descriptors: Schema.FieldDescriptors = {
     pathname: Schema.String,
   }
@@ -107,12 +120,21 @@ const createRequestSchemaValidatorAndMatcher = <T extends RouterRequestSchema>(s
 
   const RequestStruct = Schema.Struct(descriptors)
 
-  const validator = createSchemaValidator(Schema.NonStrict(RequestStruct) as any)
+  const { compile, ...validatorOptions } = options ?? {}
+
+  const RequestSchema = Schema.NonStrict(RequestStruct)
+
+  // the schemas containing async parts can only be validated asynchronously
+  const validator = Validator.isAsync(RequestSchema)
+    ? createAsyncSchemaValidator(RequestSchema, validatorOptions)
+    : compile
+    ? compileValidator(RequestSchema, validatorOptions)
+    : createSchemaValidator(RequestSchema as any, validatorOptions)
 
   const matcher = createMatch(schema.pathname)
 
   return {
-    validator: validator as Validator<TypeOfRequestSchema<T>>,
+    validator: validator as Validator<TypeOfRequestSchema<T>> | AsyncValidator<TypeOfRequestSchema<T>>,
     matcher,
   }
 }
@@ -219,7 +241,7 @@ const resolveUrlPattern = <T extends string>(input: T) => {
   }
 }
 
-const createUrlSchemaValidatorAndMatcher = <T extends RouterUrlSchema>(schema: T) => {
+const createUrlSchemaValidatorAndMatcher = <T extends RouterUrlSchema>(schema: T, options?: SchemaValidatorOptions) => {
   const { url, ...rest } = schema
   const { pathname, params, query } = resolveUrlPattern(url)
 
@@ -240,11 +262,11 @@ const createUrlSchemaValidatorAndMatcher = <T extends RouterUrlSchema>(schema: T
   // ensure pathname come from url
   routerRequestSchema.pathname = pathname
 
-  const result = createRequestSchemaValidatorAndMatcher(routerRequestSchema)
+  const result = createRequestSchemaValidatorAndMatcher(routerRequestSchema, options)
 
   return {
     ...result,
-    validator: result.validator as Validator<TypeOfUrlSchema<T>>,
+    validator: result.validator as Validator<TypeOfUrlSchema<T>> | AsyncValidator<TypeOfUrlSchema<T>>,
   }
 }
 
@@ -254,15 +276,36 @@ export type HttpMiddlewareInput = MiddlewareInput<RequestInfo, MaybeAsyncRespons
 
 export type MatchOptions = {
   block?: boolean
+  /**
+   * stop at the first schema error or report all of them
+   * default: true
+   */
+  abortEarly?: boolean
+  /**
+   * validate request by the validator generated by compileValidator
+   * default: false
+   */
+  compile?: boolean
   onSchemaError?(error: ValidationError): Response | void
 }
 
+const getSchemaErrorMessage = (error: ValidationError) => {
+  return getValidationErrors(error)
+    .map(({ path, message }) => {
+      if (path) {
+        return `path: ${JSON.stringify(path)}\n${message}`
+      }
+      return message
+    })
+    .join('\n')
+}
+
 export type RouterSchema = RouterRequestSchema | RouterUrlSchema
 
 export type RouterSchemaValidator<T extends RouterSchema> = T extends RouterRequestSchema
-  ? Validator<TypeOfRequestSchema<T>>
+  ? Validator<TypeOfRequestSchema<T>> | AsyncValidator<TypeOfRequestSchema<T>>
   : T extends RouterUrlSchema
-  ? Validator<TypeOfUrlSchema<T>>
+  ? Validator<TypeOfUrlSchema<T>> | AsyncValidator<TypeOfUrlSchema<T>>
   : never
 
 export type MatchedPipeline<T extends RouterSchema> = T extends RouterRequestSchema
@@ -380,7 +423,7 @@ export const createRouterPipeline = (): RouterPipeline => {
     matchedPipeline: Pipeline<T, MaybeAsyncResponse>
     method: RouterSharedSchema['method']
     options?: MatchOptions
-    validator: Validator<T>
+    validator: Validator<T> | AsyncValidator<T>
     matcher: MatchFunction<object>
   }) => {
     const config = {
@@ -405,36 +448,39 @@ export const createRouterPipeline = (): RouterPipeline => {
 
       const { params } = matches
 
-      const result = validator({
-        ...input,
-        params,
-      })
+      const handleResult = (result: ValidationResult<T>) => {
+        if (result.isErr) {
+          if (config.onSchemaError) {
+            const response = config.onSchemaError(result.value)
+            if (response) return response
+          }
 
-      if (result.isErr) {
-        if (config.onSchemaError) {
-          const response = config.onSchemaError(result.value)
-          if (response) return response
+          throw new HttpError(getSchemaErrorMessage(result.value), 400)
         }
 
-        let { message } = result.value
+        return matchedPipeline.run(result.value, {
+          container,
+          onLast: () => {
+            if (config.block) {
+              throw new Error(`Unhandled request: ${input.pathname}`)
+            } else {
+              return next()
+            }
+          },
+        })
+      }
 
-        if (result.value.path) {
-          message = `path: ${JSON.stringify(result.value.path)}\n${message}`
-        }
+      const result = validator({
+        ...input,
+        params,
+      })
 
-        throw new HttpError(message, 400)
+      // the validator of schema containing async parts returns a promise
+      if (result instanceof Promise) {
+        return result.then(handleResult)
       }
 
-      return matchedPipeline.run(result.value, {
-        container,
-        onLast: () => {
-          if (config.block) {
-            throw new Error(`Unhandled request: ${input.pathname}`)
-          } else {
-            return next()
-          }
-        },
-      })
+      return handleResult(result)
     })
 
     return matchedPipeline
@@ -443,7 +489,10 @@ export const createRouterPipeline = (): RouterPipeline => {
   const match: RouterPipeline['match'] = (schema: any, options: MatchOptions) => {
     if (isRouterRequestSchema(schema)) {
       const matchedPipeline = createPipeline<any, MaybeAsyncResponse>()
-      const { validator, matcher } = createRequestSchemaValidatorAndMatcher(schema)
+      const { validator, matcher } = createRequestSchemaValidatorAndMatcher(schema, {
+        abortEarly: options?.abortEarly,
+        compile: options?.compile,
+      })
       return createMatchedPipeline({
         matchedPipeline,
         validator,
@@ -455,7 +504,10 @@ export const createRouterPipeline = (): RouterPipeline => {
 
     if (isRouterUrlSchema(schema)) {
       const matchedPipeline = createPipeline<any, MaybeAsyncResponse>()
-      const { validator, matcher } = createUrlSchemaValidatorAndMatcher(schema)
+      const { validator, matcher } = createUrlSchemaValidatorAndMatcher(schema, {
+        abortEarly: options?.abortEarly,
+        compile: options?.compile,
+      })
       return createMatchedPipeline({
         matchedPipeline,
         validator,
@@ -0,0 +1,229 @@
+import { JSONSchema7 } from 'json-schema'
+import { Int, List, ObjectType, SchemaCtor, Struct, Union } from 'farrow-schema'
+import { Validator } from 'farrow-schema/validator'
+import { Formatter } from 'farrow-schema/formatter'
+import { fromJSONSchema, codegenJSONSchema, transform } from '../src'
+
+const validate = (Schema: SchemaCtor, input: unknown) => {
+  return Validator.validate(Schema, input).isOk
+}
+
+const userSchema: JSONSchema7 = {
+  $ref: '#/definitions/User',
+  definitions: {
+    User: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        name: { type: 'string', description: 'user name', maxLength: 10 },
+        email: { type: 'string', format: 'email' },
+        role: { enum: ['admin', 'user'] },
+        status: { $ref: '#/definitions/Status' },
+        friends: { type: 'array', items: { $ref: '#/definitions/User' } },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+      required: ['id', 'name', 'role', 'friends'],
+    },
+    Status: {
+      title: 'Status',
+      type: 'string',
+      enum: ['active', 'archived'],
+    },
+  },
+}
+
+describe('fromJSONSchema', () => {
+  it('creates schemas which validate the same inputs', () => {
+    const { Schema, definitions, unsupported } = fromJSONSchema(userSchema)
+
+    expect(Object.keys(definitions)).toEqual(['User', 'Status'])
+    expect(Schema).toBe(definitions.User)
+    expect(unsupported).toEqual([])
+
+    const user = {
+      id: 1,
+      name: 'foo',
+      role: 'admin',
+      friends: [{ id: 2, name: 'bar', role: 'user', friends: [], status: 'active' }],
+    }
+
+    expect(validate(Schema, user)).toBe(true)
+    expect(validate(Schema, { ...user, id: 0 })).toBe(false)
+    expect(validate(Schema, { ...user, name: 'a long user name' })).toBe(false)
+    expect(validate(Schema, { ...user, email: 'foo' })).toBe(false)
+    expect(validate(Schema, { ...user, role: 'guest' })).toBe(false)
+    expect(validate(Schema, { ...user, friends: [{ ...user, status: 'deleted' }] })).toBe(false)
+    expect(validate(Schema, { id: 1, role: 'admin', friends: [] })).toBe(false)
+  })
+
+  it('supports the formats of scalars, lists, tuples, records and unions', () => {
+    const schema: JSONSchema7 = {
+      type: 'object',
+      properties: {
+        count: { type: ['integer', 'null'] },
+        score: { type: 'number', multipleOf: 0.5 },
+        flag: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        point: { type: 'array', items: [{ type: 'number' }, { type: 'number' }] },
+        meta: { type: 'object', additionalProperties: { type: 'integer' } },
+        value: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+        kind: { const: 'fixed' },
+        data: { type: 'string', contentEncoding: 'base64' },
+        both: { allOf: [{ type: 'object', properties: { a: { type: 'integer' } }, required: ['a'] }] },
+      },
+      required: ['score', 'flag', 'tags', 'point', 'meta', 'value', 'kind', 'data', 'both'],
+      additionalProperties: false,
+    }
+
+    const { Schema } = fromJSONSchema(schema)
+
+    const input = {
+      count: null,
+      score: 1.5,
+      flag: true,
+      tags: ['a'],
+      point: [1, 2],
+      meta: { a: 1 },
+      value: 'a',
+      kind: 'fixed',
+      data: 'aGkh',
+      both: { a: 1 },
+    }
+
+    expect(validate(Schema, input)).toBe(true)
+    expect(validate(Schema, { ...input, count: 1.5 })).toBe(false)
+    expect(validate(Schema, { ...input, score: 1.2 })).toBe(false)
+    expect(validate(Schema, { ...input, tags: [] })).toBe(false)
+    expect(validate(Schema, { ...input, point: [1] })).toBe(false)
+    expect(validate(Schema, { ...input, meta: { a: 'a' } })).toBe(false)
+    expect(validate(Schema, { ...input, value: true })).toBe(false)
+    expect(validate(Schema, { ...input, kind: 'other' })).toBe(false)
+    expect(validate(Schema, { ...input, data: 'a' })).toBe(false)
+    expect(validate(Schema, { ...input, both: {} })).toBe(false)
+    expect(validate(Schema, { ...input, extra: 1 })).toBe(false)
+  })
+
+  it('supports recursive definitions which are not objects', () => {
+    const schema: JSONSchema7 = {
+      $ref: '#/$defs/Tree',
+      $defs: {
+        Tree: {
+          anyOf: [{ type: 'integer' }, { type: 'array', items: { $ref: '#/$defs/Tree' } }],
+        },
+      },
+    }
+
+    const { Schema } = fromJSONSchema(schema)
+
+    expect(validate(Schema, [1, [2, [3]]])).toBe(true)
+    expect(validate(Schema, [1, ['a']])).toBe(false)
+  })
+
+  it('keeps the result of transform', () => {
+    class Node extends ObjectType {
+      value = Int
+      children = List(Node)
+    }
+
+    const { Schema } = fromJSONSchema(transform(Struct({ node: Node, id: Union(String, Int) })))
+
+    const input = { node: { value: 1, children: [{ value: 2, children: [] }] }, id: 'a' }
+
+    expect(validate(Schema, input)).toBe(true)
+    expect(validate(Schema, { ...input, id: true })).toBe(false)
+    expect(validate(Schema, { ...input, node: { value: 1, children: [{ value: 'a' }] } })).toBe(false)
+
+    const { types, typeId } = Formatter.format(Schema)
+
+    // definitions of transform are named by numbers
+    expect(types[typeId]).toMatchObject({ type: 'Object', name: 'Type0' })
+  })
+
+  it('reports unsupported keywords', () => {
+    const schema: JSONSchema7 = {
+      type: 'object',
+      properties: {
+        a: { type: 'integer', exclusiveMinimum: 0 },
+        b: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        c: { type: 'string', format: 'ipv4' },
+        d: { not: { type: 'string' } },
+        e: { $ref: 'https://example.com/schema.json' },
+      },
+      patternProperties: {
+        '^x-': { type: 'string' },
+      },
+    }
+
+    const { unsupported } = fromJSONSchema(schema)
+
+    expect(unsupported).toEqual([
+      { path: '#', keyword: 'patternProperties' },
+      { path: '#/properties/a', keyword: 'exclusiveMinimum' },
+      { path: '#/properties/b', keyword: 'uniqueItems' },
+      { path: '#/properties/c', keyword: 'format' },
+      { path: '#/properties/d', keyword: 'not' },
+      { path: '#/properties/e', keyword: '$ref' },
+    ])
+
+    expect(() => fromJSONSchema(schema, { strict: true })).toThrow(
+      'Unsupported JSON Schema keywords:\npatternProperties at #\nexclusiveMinimum at #/properties/a',
+    )
+  })
+
+  it('throws when $ref can not be resolved', () => {
+    expect(() => fromJSONSchema({ $ref: '#/definitions/User' })).toThrow('Unable to resolve $ref: #/definitions/User')
+  })
+})
+
+describe('codegenJSONSchema', () => {
+  it('prints the source of schemas', () => {
+    const { source, unsupported } = codegenJSONSchema(userSchema)
+
+    expect(unsupported).toEqual([])
+    expect(source)
+      .toBe(`import { Constrained, Enum, Int, List, Literal, Nullable, ObjectType, Type, Union } from 'farrow-schema'
+
+export class User extends ObjectType {
+  id = Constrained(Int, {"min":1})
+  name = {
+    [Type]: Constrained(String, {"maxLength":10}),
+    description: "user name",
+  }
+  email = Nullable(Constrained(String, {"format":"email"}))
+  role = Union(Literal("admin"), Literal("user"))
+  status = Nullable(Status)
+  friends = List(User)
+  createdAt = Nullable(Date)
+}
+
+export const Status = Enum("Status", ["active","archived"])
+`)
+  })
+
+  it('prints lazy references and named root schema', () => {
+    const schema: JSONSchema7 = {
+      type: 'object',
+      properties: {
+        tree: { $ref: '#/definitions/Tree' },
+        'first-name': { type: 'string' },
+      },
+      required: ['tree'],
+      definitions: {
+        Tree: {
+          anyOf: [{ type: 'integer' }, { type: 'array', items: { $ref: '#/definitions/Tree' } }],
+        },
+      },
+    }
+
+    expect(codegenJSONSchema(schema, { name: 'Root' }).source)
+      .toBe(`import { Int, Lazy, List, Nullable, ObjectType, Union } from 'farrow-schema'
+
+export class Root extends ObjectType {
+  tree = Tree
+  "first-name" = Nullable(String)
+}
+
+export const Tree = Union(Int, List(Lazy(() => Tree)))
+`)
+  })
+})
@@ -1,4 +1,33 @@
-import { Int, Type } from 'farrow-schema'
+import { JSONSchema7 } from 'json-schema'
+import {
+  Int,
+  Type,
+  Struct,
+  List,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+  MultipleOf,
+  Pattern,
+  Email,
+  UrlString,
+  field,
+  ObjectType,
+  Union,
+  Lazy,
+  Enum,
+  TaggedUnion,
+  Exact,
+  UnknownKeys,
+  Schema,
+  BigInt,
+  Bytes,
+  Url,
+  SetOf,
+  MapOf,
+  Record,
+} from 'farrow-schema'
 import { Api, ApiEntries } from 'farrow-api'
 import { toJSON } from 'farrow-api/dist/toJSON'
 import { transform, transformResult } from '../src'
@@ -76,4 +105,189 @@ describe('transform', () => {
       }
     }
   })
+
+  it('constraints', () => {
+    const jsonSchema = transform(
+      Struct({
+        age: Max(Min(Int, 0), 150),
+        name: Pattern(MaxLength(MinLength(String, 1), 10), '^[a-z]+$'),
+        tags: MaxLength(List(String), 3),
+        even: MultipleOf(Number, 2),
+        email: Email,
+        url: UrlString,
+      }),
+    )
+
+    const definitions = jsonSchema.definitions as { [key: string]: JSONSchema7 }
+    const getProperty = (key: string) => {
+      const ref = (definitions['0'].properties![key] as JSONSchema7).$ref!
+      return definitions[ref.replace('#/definitions/', '')]
+    }
+
+    expect(getProperty('age')).toMatchObject({
+      type: 'integer',
+      minimum: 0,
+      maximum: 150,
+    })
+
+    expect(getProperty('name')).toMatchObject({
+      type: 'string',
+      minLength: 1,
+      maxLength: 10,
+      pattern: '^[a-z]+$',
+    })
+
+    expect(getProperty('tags')).toMatchObject({
+      type: 'array',
+      maxItems: 3,
+    })
+
+    expect(getProperty('even')).toMatchObject({
+      type: 'number',
+      multipleOf: 2,
+    })
+
+    expect(getProperty('email')).toMatchObject({
+      type: 'string',
+      format: 'email',
+    })
+
+    expect(getProperty('url')).toMatchObject({
+      type: 'string',
+      format: 'uri',
+    })
+  })
+
+  it('default value', () => {
+    const jsonSchema = transform(
+      Struct({
+        role: field({
+          [Type]: String,
+          default: 'user',
+        }),
+      }),
+    )
+
+    const definitions = jsonSchema.definitions as { [key: string]: JSONSchema7 }
+
+    expect(definitions['0'].properties!.role).toMatchObject({
+      default: 'user',
+    })
+  })
+
+  it('recursive schema', () => {
+    class Node extends ObjectType {
+      value = Int
+      children = List(Node)
+    }
+
+    type Tree = number | Tree[]
+
+    const Tree: new () => Schema & { __type: Tree } = Union(Int, List(Lazy(() => Tree)))
+
+    expect(transform(Node)).toMatchObject({
+      $ref: '#/definitions/0',
+    })
+
+    const jsonSchema = transform(Tree)
+    const definitions = jsonSchema.definitions as { [key: string]: JSONSchema7 }
+
+    expect(jsonSchema.$ref).toBe('#/definitions/3')
+    expect(definitions['1']).toMatchObject({
+      $ref: '#/definitions/3',
+    })
+  })
+
+  it('supports tagged union with discriminator', () => {
+    const Shape = TaggedUnion('kind', {
+      Circle: {
+        radius: Int,
+      },
+    })
+
+    const jsonSchema = transform(Shape)
+    const definitions = jsonSchema.definitions as { [key: string]: JSONSchema7 }
+
+    expect(jsonSchema.$ref).toBe('#/definitions/1')
+    expect(definitions['1']).toMatchObject({
+      oneOf: [
+        {
+          allOf: [
+            {
+              type: 'object',
+              properties: {
+                kind: { const: 'Circle' },
+              },
+              required: ['kind'],
+            },
+            { $ref: '#/definitions/0' },
+          ],
+        },
+      ],
+      discriminator: {
+        propertyName: 'kind',
+      },
+    })
+  })
+
+  it('supports unknown keys', () => {
+    const User = Struct({
+      name: String,
+    })
+
+    expect(transform(Exact(User)).definitions!['1']).toMatchObject({
+      type: 'object',
+      additionalProperties: false,
+    })
+
+    expect(transform(UnknownKeys(User, 'passthrough')).definitions!['1']).toMatchObject({
+      type: 'object',
+      additionalProperties: true,
+    })
+  })
+
+  it('supports enum', () => {
+    const Status = Enum('Status', ['active', 'archived'])
+
+    expect(transform(Status).definitions!['0']).toMatchObject({
+      title: 'Status',
+      enum: ['active', 'archived'],
+    })
+  })
+
+  it('supports built-in kinds by their wire values', () => {
+    const definitions = transform(
+      Struct({
+        size: BigInt,
+        content: Bytes,
+        url: Url,
+        tags: SetOf(String),
+        owners: MapOf(Int, String),
+      }),
+    ).definitions!
+
+    expect(definitions['1']).toEqual({ type: 'string', pattern: '^-?\\d+$' })
+    expect(definitions['2']).toEqual({ type: 'string', contentEncoding: 'base64' })
+    expect(definitions['3']).toEqual({ type: 'string', format: 'uri' })
+    expect(definitions['5']).toEqual({ type: 'array', items: { $ref: '#/definitions/4' }, uniqueItems: true })
+    expect(definitions['7']).toEqual({
+      type: 'array',
+      items: {
+        type: 'array',
+        items: [{ $ref: '#/definitions/6' }, { $ref: '#/definitions/4' }],
+        minItems: 2,
+        maxItems: 2,
+      },
+    })
+  })
+
+  it('supports key type of record', () => {
+    const definitions = transform(Record(Pattern(String, '^x-'), Int)).definitions!
+
+    expect(definitions['3']).toMatchObject({
+      type: 'object',
+      propertyNames: { $ref: '#/definitions/1' },
+      additionalProperties: { $ref: '#/definitions/2' },
+    })
+  })
 })
@@ -0,0 +1,236 @@
+import { Api } from 'farrow-api'
+import { Int, List, Nullable, ObjectType, Type, Tuple, Literal } from 'farrow-schema'
+import { toOpenAPI } from '../src/openapi'
+
+class User extends ObjectType {
+  id = {
+    description: 'id of user',
+    [Type]: Int,
+  }
+  name = String
+  nickname = {
+    deprecated: 'use name instead',
+    [Type]: Nullable(String),
+  }
+  friends = List(User)
+}
+
+describe('toOpenAPI', () => {
+  it('describes apis as operations', () => {
+    const getUser = Api({
+      description: 'get user by id',
+      input: {
+        id: Int,
+      },
+      output: {
+        description: 'the user found',
+        [Type]: User,
+      },
+      errors: {
+        NotFound: Int,
+      },
+    })
+
+    const getPosition = Api({
+      tags: ['position'],
+      deprecated: 'use getUser instead',
+      input: Tuple(Int, Int),
+      output: Literal('ok'),
+    })
+
+    const document = toOpenAPI(
+      {
+        getUser,
+        nested: {
+          getPosition,
+        },
+      },
+      {
+        info: {
+          title: 'User Service',
+          version: '2.0.0',
+        },
+        servers: [{ url: 'http://localhost:3000/api' }],
+      },
+    )
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual({ title: 'User Service', version: '2.0.0' })
+    expect(document.servers).toEqual([{ url: 'http://localhost:3000/api' }])
+
+    expect(document.components.schemas).toEqual({
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'id of user' },
+          name: { type: 'string' },
+          nickname: {
+            anyOf: [{ type: 'string' }, { const: null }],
+            deprecated: true,
+          },
+          friends: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/User' },
+          },
+        },
+        required: ['id', 'name', 'friends'],
+      },
+    })
+
+    expect(document.paths['/getUser'].post).toEqual({
+      operationId: 'getUser',
+      description: 'get user by id',
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                type: { const: 'Single' },
+                path: { const: ['getUser'] },
+                input: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'integer' },
+                  },
+                  required: ['id'],
+                },
+              },
+              required: ['type', 'path', 'input'],
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'ApiSingleSuccessResponse or ApiErrorResponse',
+          content: {
+            'application/json': {
+              schema: {
+                oneOf: [
+                  {
+                    type: 'object',
+                    properties: {
+                      type: { const: 'ApiSingleSuccessResponse' },
+                      output: {
+                        $ref: '#/components/schemas/User',
+                        description: 'the user found',
+                      },
+                    },
+                    required: ['type', 'output'],
+                  },
+                  {
+                    type: 'object',
+                    properties: {
+                      type: { const: 'ApiErrorResponse' },
+                      error: {
+                        anyOf: [
+                          {
+                            type: 'object',
+                            properties: {
+                              message: { type: 'string' },
+                            },
+                            required: ['message'],
+                          },
+                          {
+                            type: 'object',
+                            properties: {
+                              message: { type: 'string' },
+                              code: { const: 'NotFound' },
+                              payload: { type: 'integer' },
+                            },
+                            required: ['message', 'code', 'payload'],
+                          },
+                        ],
+                      },
+                    },
+                    required: ['type', 'error'],
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    })
+
+    const getPositionOperation = document.paths['/nested/getPosition'].post
+    const [requestSchema] = Object.values(getPositionOperation.requestBody.content).map(({ schema }) => schema)
+
+    expect(getPositionOperation.operationId).toBe('nested.getPosition')
+    expect(getPositionOperation.tags).toEqual(['position'])
+    expect(getPositionOperation.deprecated).toBe(true)
+    expect(getPositionOperation.description).toBe('Deprecated: use getUser instead')
+    expect(requestSchema.properties).toEqual({
+      type: { const: 'Single' },
+      path: { const: ['nested', 'getPosition'] },
+      input: {
+        type: 'array',
+        prefixItems: [{ type: 'integer' }, { type: 'integer' }],
+      },
+    })
+  })
+
+  it('uses default info and unique component names', () => {
+    class Item extends ObjectType {
+      value = Int
+    }
+
+    const AnotherItem = class Item extends ObjectType {
+      value = String
+    }
+
+    const document = toOpenAPI({
+      getItem: Api({
+        input: Item,
+        output: AnotherItem,
+      }),
+    })
+
+    expect(document.info).toEqual({ title: 'Farrow-API', version: '1.0.0' })
+    expect(document.servers).toBeUndefined()
+    expect(Object.keys(document.components.schemas)).toEqual(['Item', 'Item_2'])
+  })
+
+  it('hides internal apis and carries examples and scopes', () => {
+    const getScore = Api({
+      input: { id: Int },
+      output: Int,
+      examples: [{ description: 'a good score', input: { id: 1 }, output: 100 }],
+      scopes: ['score:read'],
+    })
+
+    const resetScore = Api({
+      input: { id: Int },
+      output: Int,
+      internal: true,
+    })
+
+    const entries = {
+      getScore,
+      admin: {
+        resetScore,
+      },
+    }
+
+    expect(Object.keys(toOpenAPI(entries).paths)).toEqual(['/getScore'])
+    expect(Object.keys(toOpenAPI(entries, { internal: true }).paths)).toEqual(['/getScore', '/admin/resetScore'])
+
+    const operation = toOpenAPI(entries).paths['/getScore'].post
+
+    expect(operation['x-scopes']).toEqual(['score:read'])
+    expect(operation.requestBody.content['application/json'].examples).toEqual({
+      example0: {
+        summary: 'a good score',
+        value: { type: 'Single', path: ['getScore'], input: { id: 1 } },
+      },
+    })
+    expect(operation.responses[200].content['application/json'].examples).toEqual({
+      example0: {
+        summary: 'a good score',
+        value: { type: 'ApiSingleSuccessResponse', output: 100 },
+      },
+    })
+  })
+})
@@ -8,17 +8,24 @@ import {
   FormatFields,
   FormatField,
   FormatUnionType,
+  FormatTaggedUnionType,
   FormatIntersectType,
   FormatStructType,
   FormatRecordType,
   FormatListType,
+  FormatSetType,
+  FormatMapType,
   FormatTupleType,
   FormatLiteralType,
+  FormatEnumType,
   FormatNullableType,
   FormatStrictType,
   FormatNonStrictType,
+  FormatUnknownKeysType,
   FormatReadOnlyType,
   FormatReadonlyDeepType,
+  FormatConstrainedType,
+  FormatLazyType,
 } from 'farrow-schema/formatter'
 import { JSONSchema7, JSONSchema7Definition } from 'json-schema'
 
@@ -54,6 +61,9 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
       case 'Union': {
         return transformUnionType(input)
       }
+      case 'TaggedUnion': {
+        return transformTaggedUnionType(input)
+      }
       case 'Intersect': {
         return transformIntersectType(input)
       }
@@ -66,12 +76,21 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
       case 'List': {
         return transformListType(input)
       }
+      case 'Set': {
+        return transformSetType(input)
+      }
+      case 'Map': {
+        return transformMapType(input)
+      }
       case 'Tuple': {
         return transformTupleType(input)
       }
       case 'Literal': {
         return transformLiteralType(input)
       }
+      case 'Enum': {
+        return transformEnumType(input)
+      }
       case 'Nullable': {
         return transformNullableType(input)
       }
@@ -81,12 +100,21 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
       case 'NonStrict': {
         return transformNonStrictType(input)
       }
+      case 'UnknownKeys': {
+        return transformUnknownKeysType(input)
+      }
       case 'ReadOnly': {
         return transformReadOnlyType(input)
       }
       case 'ReadOnlyDeep': {
         return transformReadOnlyDeepType(input)
       }
+      case 'Constrained': {
+        return transformConstrainedType(input)
+      }
+      case 'Lazy': {
+        return transformLazyType(input)
+      }
       // for eslint
       default: {
         throw new Error(`Unknown format type: ${input}`)
@@ -124,6 +152,21 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
         return {
           type: 'string',
         }
+      case 'BigInt':
+        return {
+          type: 'string',
+          pattern: '^-?\\d+$',
+        }
+      case 'Bytes':
+        return {
+          type: 'string',
+          contentEncoding: 'base64',
+        }
+      case 'Url':
+        return {
+          type: 'string',
+          format: 'uri',
+        }
       case 'Unknown':
         return {}
       case 'Any':
@@ -162,6 +205,7 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     return {
       ...findSchema(input.typeId),
       description: input.description,
+      default: input.default as JSONSchema7['default'],
     }
   }
 
@@ -172,6 +216,31 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     }
   }
 
+  const transformTaggedUnionType = (input: FormatTaggedUnionType): JSONSchema7 => {
+    const items: JSONSchema7[] = input.itemTypes.map(({ value, typeId }) => {
+      return {
+        allOf: [
+          {
+            type: 'object',
+            properties: {
+              [input.tag]: { const: value },
+            },
+            required: [input.tag],
+          },
+          findSchema(typeId),
+        ],
+      }
+    })
+    // discriminator is not a part of JSON Schema, but it is understood by OpenAPI tools
+    const schema: JSONSchema7 & { discriminator: { propertyName: string } } = {
+      oneOf: items,
+      discriminator: {
+        propertyName: input.tag,
+      },
+    }
+    return schema
+  }
+
   const transformIntersectType = (input: FormatIntersectType): JSONSchema7 => {
     const items: JSONSchema7[] = input.itemTypes.map(({ typeId }) => findSchema(typeId))
 
@@ -200,10 +269,12 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
 
   const transformRecordType = (input: FormatRecordType): JSONSchema7 => {
     const item = findSchema(input.valueTypeId)
-    return {
+    const schema: JSONSchema7 = {
       type: 'object',
       additionalProperties: item,
     }
+    if (input.keyTypeId !== undefined) schema.propertyNames = findSchema(input.keyTypeId)
+    return schema
   }
 
   const transformListType = (input: FormatListType): JSONSchema7 => {
@@ -214,6 +285,30 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     }
   }
 
+  const transformSetType = (input: FormatSetType): JSONSchema7 => {
+    const item = findSchema(input.itemTypeId)
+    return {
+      type: 'array',
+      items: item,
+      uniqueItems: true,
+    }
+  }
+
+  // the wire value of Map is a list of [key, value] entries
+  const transformMapType = (input: FormatMapType): JSONSchema7 => {
+    const key = findSchema(input.keyTypeId)
+    const value = findSchema(input.valueTypeId)
+    return {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: [key, value],
+        minItems: 2,
+        maxItems: 2,
+      },
+    }
+  }
+
   const transformTupleType = (input: FormatTupleType): JSONSchema7 => {
     const items = input.itemTypes.map(({ typeId }) => findSchema(typeId))
     return {
@@ -228,6 +323,13 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     }
   }
 
+  const transformEnumType = (input: FormatEnumType): JSONSchema7 => {
+    return {
+      title: input.name,
+      enum: input.values,
+    }
+  }
+
   const transformNullableType = (input: FormatNullableType): JSONSchema7 => {
     const item = findSchema(input.itemTypeId)
     return {
@@ -250,6 +352,21 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     return item
   }
 
+  const transformUnknownKeysType = (input: FormatUnknownKeysType): JSONSchema7 => {
+    if (input.unknownKeys === 'strip') {
+      return findSchema(input.itemTypeId)
+    }
+
+    // inline the item schema since keywords next to $ref are ignored in draft 7
+    const schema: JSONSchema7 = transformType(findType(input.itemTypeId))
+
+    if (schema.type === 'object') {
+      schema.additionalProperties = input.unknownKeys === 'passthrough'
+    }
+
+    return schema
+  }
+
   const transformReadOnlyType = (input: FormatReadOnlyType): JSONSchema7 => {
     const item = findSchema(input.itemTypeId)
     return item
@@ -260,6 +377,34 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
     return item
   }
 
+  const transformConstrainedType = (input: FormatConstrainedType): JSONSchema7 => {
+    const itemType = findType(input.itemTypeId)
+    const { min, max, multipleOf, minLength, maxLength, pattern, format } = input.constraints
+    // inline the item schema since keywords next to $ref are ignored in draft 7
+    const schema: JSONSchema7 = transformType(itemType)
+
+    if (min !== undefined) schema.minimum = min
+    if (max !== undefined) schema.maximum = max
+    if (multipleOf !== undefined) schema.multipleOf = multipleOf
+
+    if (itemType.type === 'List') {
+      if (minLength !== undefined) schema.minItems = minLength
+      if (maxLength !== undefined) schema.maxItems = maxLength
+    } else {
+      if (minLength !== undefined) schema.minLength = minLength
+      if (maxLength !== undefined) schema.maxLength = maxLength
+    }
+
+    if (pattern !== undefined) schema.pattern = pattern
+    if (format !== undefined) schema.format = format === 'url' ? 'uri' : format
+
+    return schema
+  }
+
+  const transformLazyType = (input: FormatLazyType): JSONSchema7 => {
+    return findSchema(input.itemTypeId)
+  }
+
   const schemas = new Map<string, JSONSchema7>()
 
   const findSchema = (typeId: number): JSONSchema7 => {
@@ -267,6 +412,8 @@ export const transformResult = (formatResult: FormatResult): JSONSchema7 => {
 
     if (!schema) {
       const item = findType(typeId)
+      // placeholder for recursive reference while transforming
+      schemas.set(`${typeId}`, {})
       const schema = transformType(item)
       schemas.set(`${typeId}`, schema)
     }
@@ -0,0 +1,684 @@
+import * as S from 'farrow-schema'
+import { SchemaCtor, Constraints, Literals, FieldDescriptors } from 'farrow-schema'
+import { JSONSchema7, JSONSchema7Definition, JSONSchema7TypeName } from 'json-schema'
+
+export type UnsupportedKeyword = {
+  /**
+   * json pointer of the schema which uses the keyword
+   */
+  path: string
+  keyword: string
+}
+
+export type FromJSONSchemaOptions = {
+  /**
+   * the name of root schema when it is not a $ref
+   * default: 'Schema'
+   */
+  name?: string
+  /**
+   * throw an error for unsupported keywords instead of ignoring them
+   * default: false
+   */
+  strict?: boolean
+}
+
+export type FromJSONSchemaResult = {
+  Schema: SchemaCtor
+  /**
+   * the schemas in definitions, $defs and components.schemas
+   */
+  definitions: { [name: string]: SchemaCtor }
+  unsupported: UnsupportedKeyword[]
+}
+
+export type CodegenJSONSchemaResult = {
+  source: string
+  unsupported: UnsupportedKeyword[]
+}
+
+type BuilderField<T> = {
+  key: string
+  type: T
+  description?: string
+  default?: unknown
+}
+
+type ScalarName = 'String' | 'Number' | 'Int' | 'Boolean' | 'Date' | 'Bytes'
+
+/**
+ * the walker describes json schema by builder, which builds schemas at runtime or prints source code
+ */
+type Builder<T> = {
+  unknown(): T
+  never(): T
+  scalar(name: ScalarName): T
+  literal(value: Literals): T
+  enum(name: string, values: S.EnumValue[]): T
+  nullable(item: T): T
+  list(item: T): T
+  tuple(items: T[]): T
+  record(item: T): T
+  struct(fields: BuilderField<T>[]): T
+  union(items: T[]): T
+  intersect(items: T[]): T
+  constrained(item: T, constraints: Constraints): T
+  exact(item: T): T
+  /**
+   * lazy is true when the definition is referenced before it is defined
+   */
+  ref(name: string, lazy: boolean): T
+  declareObject(name: string): void
+  defineObject(name: string, fields: BuilderField<T>[]): void
+  define(name: string, type: T): void
+}
+
+// keywords which are understood, or only describe the schema
+const knownKeywords = [
+  'type',
+  'properties',
+  'required',
+  'items',
+  'prefixItems',
+  'additionalItems',
+  'additionalProperties',
+  'enum',
+  'const',
+  'oneOf',
+  'anyOf',
+  'allOf',
+  '$ref',
+  'nullable',
+  'minimum',
+  'maximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'contentEncoding',
+  'format',
+  'minItems',
+  'maxItems',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'example',
+  '$id',
+  '$schema',
+  '$comment',
+  'definitions',
+  '$defs',
+  'components',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+  'discriminator',
+]
+
+const formats: { [key: string]: Constraints['format'] } = {
+  email: 'email',
+  uuid: 'uuid',
+  uri: 'url',
+  url: 'url',
+}
+
+const isObject = (input: unknown): input is { [key: string]: unknown } => {
+  return typeof input === 'object' && input !== null && !Array.isArray(input)
+}
+
+const isLiteral = (input: unknown): input is Exclude<Literals, undefined> => {
+  return input === null || ['string', 'number', 'boolean'].includes(typeof input)
+}
+
+const isNullableSchema = (schema: JSONSchema7Definition): boolean => {
+  if (typeof schema === 'boolean') return schema
+
+  const type = schema.type
+  return (
+    (schema as { nullable?: boolean }).nullable === true ||
+    type === 'null' ||
+    (Array.isArray(type) && type.includes('null'))
+  )
+}
+
+/**
+ * object schemas are defined as ObjectType, the others are defined as constants
+ */
+const isObjectSchema = (schema: JSONSchema7Definition): schema is JSONSchema7 => {
+  if (typeof schema === 'boolean' || schema.$ref || !schema.properties || schema.additionalProperties === false) {
+    return false
+  }
+
+  return schema.type === undefined || schema.type === 'object'
+}
+
+const getIdentifier = (input: string) => {
+  const identifier = input.replace(/[^a-zA-Z0-9_$]/g, '_')
+  return /^[0-9]/.test(identifier) ? `Type${identifier}` : identifier
+}
+
+const unescapePointer = (segment: string) => {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+const walkJSONSchema = <T>(root: JSONSchema7, builder: Builder<T>, options?: FromJSONSchemaOptions) => {
+  const unsupported: UnsupportedKeyword[] = []
+
+  // json pointer -> definition name
+  const names = new Map<string, string>()
+  const usedNames = new Set<string>()
+  const states = new Map<string, 'defining' | 'defined'>()
+
+  const addName = (pointer: string, segment: string) => {
+    if (names.has(pointer)) return names.get(pointer)!
+
+    const identifier = getIdentifier(segment)
+    let name = identifier
+
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${identifier}${i}`
+    }
+
+    names.set(pointer, name)
+    usedNames.add(name)
+
+    return name
+  }
+
+  const resolvePointer = (pointer: string): JSONSchema7Definition | undefined => {
+    let current: unknown = root
+
+    for (const segment of pointer.split('/').slice(1)) {
+      if (!isObject(current)) return undefined
+      current = current[unescapePointer(segment)]
+    }
+
+    return current as JSONSchema7Definition | undefined
+  }
+
+  const report = (path: string, keyword: string) => {
+    unsupported.push({ path, keyword })
+  }
+
+  const checkKeywords = (schema: JSONSchema7, path: string) => {
+    for (const keyword in schema) {
+      if (!knownKeywords.includes(keyword)) {
+        report(path, keyword)
+      }
+    }
+  }
+
+  const define = (pointer: string) => {
+    const name = names.get(pointer)!
+    const schema = resolvePointer(pointer)!
+
+    states.set(pointer, 'defining')
+
+    if (isObjectSchema(schema)) {
+      checkKeywords(schema, pointer)
+      builder.defineObject(name, walkFields(schema, pointer))
+    } else {
+      builder.define(name, walk(schema, pointer))
+    }
+
+    states.set(pointer, 'defined')
+  }
+
+  const walkRef = (ref: string, path: string): T => {
+    if (!ref.startsWith('#/')) {
+      report(path, '$ref')
+      return builder.unknown()
+    }
+
+    const schema = resolvePointer(ref)
+
+    if (schema === undefined) {
+      throw new Error(`Unable to resolve $ref: ${ref}`)
+    }
+
+    const name = addName(ref, unescapePointer(ref.slice(ref.lastIndexOf('/') + 1)))
+    const state = states.get(ref)
+
+    // objects are declared before all definitions, their fields are resolved lazily
+    if (isObjectSchema(schema)) {
+      if (!state) {
+        builder.declareObject(name)
+        define(ref)
+      }
+      return builder.ref(name, false)
+    }
+
+    if (state === 'defining') {
+      return builder.ref(name, true)
+    }
+
+    if (!state) {
+      define(ref)
+    }
+
+    return builder.ref(name, false)
+  }
+
+  const walkFields = (schema: JSONSchema7, path: string): BuilderField<T>[] => {
+    const properties = schema.properties ?? {}
+    const required = schema.required ?? []
+    const fields: BuilderField<T>[] = []
+
+    for (const key in properties) {
+      const property = properties[key]
+      let type = walk(property, `${path}/properties/${key}`)
+
+      // optional fields are nullable in farrow-schema
+      if (!required.includes(key) && !isNullableSchema(property)) {
+        type = builder.nullable(type)
+      }
+
+      fields.push({
+        key,
+        type,
+        description: typeof property === 'object' ? property.description : undefined,
+        default: typeof property === 'object' ? property.default : undefined,
+      })
+    }
+
+    if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+      report(path, 'additionalProperties')
+    }
+
+    return fields
+  }
+
+  const withConstraints = (type: T, constraints: Constraints): T => {
+    const keys = Object.keys(constraints) as (keyof Constraints)[]
+
+    for (const key of keys) {
+      if (constraints[key] === undefined) delete constraints[key]
+    }
+
+    return Object.keys(constraints).length ? builder.constrained(type, constraints) : type
+  }
+
+  const walkTypeName = (typeName: JSONSchema7TypeName, schema: JSONSchema7, path: string): T => {
+    switch (typeName) {
+      case 'string': {
+        if (schema.format === 'date-time' || schema.format === 'date') {
+          return builder.scalar('Date')
+        }
+
+        if (schema.contentEncoding === 'base64') {
+          return builder.scalar('Bytes')
+        }
+
+        if (schema.contentEncoding !== undefined) {
+          report(path, 'contentEncoding')
+        }
+
+        let format: Constraints['format']
+
+        if (schema.format !== undefined) {
+          format = formats[schema.format]
+          if (!format) report(path, 'format')
+        }
+
+        return withConstraints(builder.scalar('String'), {
+          minLength: schema.minLength,
+          maxLength: schema.maxLength,
+          pattern: schema.pattern,
+          format,
+        })
+      }
+      case 'integer':
+      case 'number': {
+        return withConstraints(builder.scalar(typeName === 'integer' ? 'Int' : 'Number'), {
+          min: schema.minimum,
+          max: schema.maximum,
+          multipleOf: schema.multipleOf,
+        })
+      }
+      case 'boolean': {
+        return builder.scalar('Boolean')
+      }
+      case 'null': {
+        return builder.literal(null)
+      }
+      case 'array': {
+        const prefixItems = (schema as { prefixItems?: JSONSchema7Definition[] }).prefixItems
+        const tupleItems = prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined)
+        let type: T
+
+        if (tupleItems) {
+          type = builder.tuple(tupleItems.map((item, index) => walk(item, `${path}/items/${index}`)))
+        } else if (schema.items !== undefined) {
+          type = builder.list(walk(schema.items as JSONSchema7Definition, `${path}/items`))
+        } else if (schema.additionalItems !== undefined) {
+          type = builder.list(walk(schema.additionalItems, `${path}/additionalItems`))
+        } else {
+          type = builder.list(builder.unknown())
+        }
+
+        return withConstraints(type, {
+          minLength: schema.minItems,
+          maxLength: schema.maxItems,
+        })
+      }
+      case 'object': {
+        if (!schema.properties) {
+          const { additionalProperties } = schema
+          const item = typeof additionalProperties === 'object' ? additionalProperties : additionalProperties !== false
+          return builder.record(walk(item, `${path}/additionalProperties`))
+        }
+
+        const type = builder.struct(walkFields(schema, path))
+
+        return schema.additionalProperties === false ? builder.exact(type) : type
+      }
+    }
+  }
+
+  const walkSchema = (schema: JSONSchema7, path: string): T => {
+    if (schema.$ref) {
+      return walkRef(schema.$ref, path)
+    }
+
+    if (schema.const !== undefined) {
+      if (isLiteral(schema.const)) {
+        return builder.literal(schema.const)
+      }
+      report(path, 'const')
+      return builder.unknown()
+    }
+
+    if (schema.enum) {
+      const values = schema.enum.filter(isLiteral)
+
+      if (values.length < schema.enum.length) {
+        report(path, 'enum')
+      }
+
+      const isEnumValues = values.every((value) => typeof value === 'string' || typeof value === 'number')
+
+      if (schema.title && isEnumValues) {
+        return builder.enum(getIdentifier(schema.title), values as S.EnumValue[])
+      }
+
+      return builder.union(values.map((value) => builder.literal(value)))
+    }
+
+    const unionItems = schema.oneOf ?? schema.anyOf
+
+    if (unionItems) {
+      const keyword = schema.oneOf ? 'oneOf' : 'anyOf'
+      return builder.union(unionItems.map((item, index) => walk(item, `${path}/${keyword}/${index}`)))
+    }
+
+    if (schema.allOf) {
+      const items = schema.allOf.map((item, index) => walk(item, `${path}/allOf/${index}`))
+      return items.length === 1 ? items[0] : builder.intersect(items)
+    }
+
+    const typeNames: JSONSchema7TypeName[] = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+      ? [schema.type]
+      : schema.properties || schema.additionalProperties !== undefined
+      ? ['object']
+      : schema.items || schema.additionalItems
+      ? ['array']
+      : []
+
+    const items = typeNames.filter((name) => name !== 'null').map((name) => walkTypeName(name, schema, path))
+
+    if (items.length === 0) {
+      return typeNames.length ? builder.literal(null) : builder.unknown()
+    }
+
+    const type = items.length === 1 ? items[0] : builder.union(items)
+
+    return typeNames.includes('null') ? builder.nullable(type) : type
+  }
+
+  const walk = (schema: JSONSchema7Definition, path: string): T => {
+    if (schema === true) return builder.unknown()
+    if (schema === false) return builder.never()
+
+    checkKeywords(schema, path)
+
+    const type = walkSchema(schema, path)
+
+    // nullable of OpenAPI 3.0
+    if ((schema as { nullable?: boolean }).nullable === true) {
+      return builder.nullable(type)
+    }
+
+    return type
+  }
+
+  const definitionGroups: [string, unknown][] = [
+    ['#/definitions', root.definitions],
+    ['#/$defs', root.$defs],
+    ['#/components/schemas', (root as { components?: { schemas?: unknown } }).components?.schemas],
+  ]
+
+  const pointers: string[] = []
+
+  for (const [prefix, definitions] of definitionGroups) {
+    if (!isObject(definitions)) continue
+
+    for (const key of Object.keys(definitions)) {
+      const pointer = `${prefix}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`
+      addName(pointer, key)
+      pointers.push(pointer)
+    }
+  }
+
+  for (const pointer of pointers) {
+    if (isObjectSchema(resolvePointer(pointer)!)) {
+      builder.declareObject(names.get(pointer)!)
+    }
+  }
+
+  for (const pointer of pointers) {
+    if (!states.has(pointer)) {
+      define(pointer)
+    }
+  }
+
+  let rootType: T
+
+  if (root.$ref) {
+    rootType = walk(root, '#')
+  } else {
+    const name = addName('#', options?.name ?? 'Schema')
+
+    if (isObjectSchema(root)) {
+      builder.declareObject(name)
+    }
+
+    define('#')
+
+    rootType = builder.ref(name, false)
+  }
+
+  if (options?.strict && unsupported.length) {
+    const list = unsupported.map(({ path, keyword }) => `${keyword} at ${path}`).join('\n')
+    throw new Error(`Unsupported JSON Schema keywords:\n${list}`)
+  }
+
+  return {
+    rootType,
+    unsupported,
+  }
+}
+
+const scalarCtors: { [key in ScalarName]: SchemaCtor } = {
+  String: String,
+  Number: Number,
+  Int: S.Int,
+  Boolean: Boolean,
+  Date: Date,
+  Bytes: S.Bytes,
+}
+
+/**
+ * create farrow-schema SchemaCtors from json schema
+ */
+export const fromJSONSchema = (schema: JSONSchema7, options?: FromJSONSchemaOptions): FromJSONSchemaResult => {
+  const definitions: { [name: string]: SchemaCtor } = {}
+  const objectFields: { [name: string]: FieldDescriptors } = {}
+
+  const toFieldDescriptors = (fields: BuilderField<SchemaCtor>[]) => {
+    const descriptors: FieldDescriptors = {}
+
+    for (const field of fields) {
+      descriptors[field.key] =
+        field.description !== undefined || field.default !== undefined
+          ? {
+              [S.Type]: field.type,
+              description: field.description,
+              default: field.default,
+            }
+          : field.type
+    }
+
+    return descriptors
+  }
+
+  const builder: Builder<SchemaCtor> = {
+    unknown: () => S.Unknown,
+    never: () => S.Never,
+    scalar: (name) => scalarCtors[name],
+    literal: (value) => S.Literal(value),
+    enum: (name, values) => S.Enum(name, values),
+    nullable: (item) => S.Nullable(item),
+    list: (item) => S.List(item),
+    tuple: (items) => S.Tuple(...items),
+    record: (item) => S.Record(item),
+    struct: (fields) => S.Struct(toFieldDescriptors(fields)),
+    union: (items) => (items.length ? S.Union(...items) : S.Never),
+    intersect: (items) => S.Intersect(...items),
+    constrained: (item, constraints) => S.Constrained(item, constraints),
+    exact: (item) => S.Exact(item),
+    ref: (name, lazy) => (lazy ? S.Lazy(() => definitions[name]) : definitions[name]),
+    declareObject: (name) => {
+      definitions[name] = class extends S.ObjectType {
+        static displayName = name
+
+        constructor() {
+          super()
+          Object.assign(this, objectFields[name])
+        }
+      }
+    },
+    defineObject: (name, fields) => {
+      objectFields[name] = toFieldDescriptors(fields)
+    },
+    define: (name, type) => {
+      definitions[name] = type
+    },
+  }
+
+  const { rootType, unsupported } = walkJSONSchema(schema, builder, options)
+  const rootName = options?.name ?? 'Schema'
+
+  // the root schema is not one of definitions
+  if (!schema.$ref) {
+    delete definitions[rootName]
+  }
+
+  return {
+    Schema: rootType,
+    definitions,
+    unsupported,
+  }
+}
+
+const indent = (source: string) => source.replace(/\n/g, '\n  ')
+
+const printKey = (key: string) => {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+/**
+ * print the source code declaring farrow-schema definitions equivalent to json schema
+ */
+export const codegenJSONSchema = (schema: JSONSchema7, options?: FromJSONSchemaOptions): CodegenJSONSchemaResult => {
+  const imports = new Set<string>()
+  const objects = new Map<string, string>()
+  const consts: string[] = []
+
+  const use = (name: string) => {
+    imports.add(name)
+    return name
+  }
+
+  const printField = (field: BuilderField<string>) => {
+    if (field.description === undefined && field.default === undefined) {
+      return field.type
+    }
+
+    const lines = [`[${use('Type')}]: ${field.type},`]
+
+    if (field.description !== undefined) {
+      lines.push(`description: ${JSON.stringify(field.description)},`)
+    }
+
+    if (field.default !== undefined) {
+      lines.push(`default: ${JSON.stringify(field.default)},`)
+    }
+
+    return `{\n  ${indent(lines.join('\n'))}\n}`
+  }
+
+  const printFields = (fields: BuilderField<string>[], separator: string) => {
+    return fields.map((field) => `${printKey(field.key)}${separator}${printField(field)}`)
+  }
+
+  const builder: Builder<string> = {
+    unknown: () => use('Unknown'),
+    never: () => use('Never'),
+    scalar: (name) => (name === 'Int' || name === 'Bytes' ? use(name) : name),
+    literal: (value) => `${use('Literal')}(${JSON.stringify(value)})`,
+    enum: (name, values) => `${use('Enum')}(${JSON.stringify(name)}, ${JSON.stringify(values)})`,
+    nullable: (item) => `${use('Nullable')}(${item})`,
+    list: (item) => `${use('List')}(${item})`,
+    tuple: (items) => `${use('Tuple')}(${items.join(', ')})`,
+    record: (item) => `${use('Record')}(${item})`,
+    struct: (fields) => {
+      if (!fields.length) return `${use('Struct')}({})`
+      return `${use('Struct')}({\n  ${indent(printFields(fields, ': ').join(',\n'))},\n})`
+    },
+    union: (items) => (items.length ? `${use('Union')}(${items.join(', ')})` : use('Never')),
+    intersect: (items) => `${use('Intersect')}(${items.join(', ')})`,
+    constrained: (item, constraints) => `${use('Constrained')}(${item}, ${JSON.stringify(constraints)})`,
+    exact: (item) => `${use('Exact')}(${item})`,
+    ref: (name, lazy) => (lazy ? `${use('Lazy')}(() => ${name})` : name),
+    declareObject: (name) => {
+      use('ObjectType')
+      objects.set(name, `export class ${name} extends ObjectType {}`)
+    },
+    defineObject: (name, fields) => {
+      const body = printFields(fields, ' = ').join('\n')
+      objects.set(
+        name,
+        body
+          ? `export class ${name} extends ObjectType {\n  ${indent(body)}\n}`
+          : `export class ${name} extends ObjectType {}`,
+      )
+    },
+    define: (name, type) => {
+      consts.push(`export const ${name} = ${type}`)
+    },
+  }
+
+  const { unsupported } = walkJSONSchema(schema, builder, options)
+
+  // field initializers of classes are lazy, so classes can be declared before the consts they use
+  const declarations = [...objects.values(), ...consts]
+  const header = `import { ${[...imports].sort().join(', ')} } from 'farrow-schema'`
+
+  return {
+    source: `${header}\n\n${declarations.join('\n\n')}\n`,
+    unsupported,
+  }
+}
@@ -1 +1,3 @@
 export * from './farrow-json-schema'
+export * from './fromJSONSchema'
+export * from './openapi'
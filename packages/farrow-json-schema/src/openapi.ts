@@ -0,0 +1,374 @@
+import { ApiEntries } from 'farrow-api'
+import { toJSON, FormatApi, FormatApiExample, FormatEntries } from 'farrow-api/dist/toJSON'
+import { FormatField, FormatTypes, isNamedFormatType } from 'farrow-schema/formatter'
+import { JSONSchema7, JSONSchema7Definition } from 'json-schema'
+import { transformResult } from './farrow-json-schema'
+
+/**
+ * a schema of JSON Schema 2020-12, the dialect of OpenAPI 3.1
+ */
+export type OpenAPISchema = {
+  [key: string]: unknown
+}
+
+export type OpenAPIInfo = {
+  title: string
+  version: string
+  description?: string
+  [key: string]: unknown
+}
+
+export type OpenAPIServer = {
+  url: string
+  description?: string
+  [key: string]: unknown
+}
+
+export type OpenAPIExamples = {
+  [name: string]: {
+    summary?: string
+    value: unknown
+  }
+}
+
+export type OpenAPIMediaType = {
+  schema: OpenAPISchema
+  examples?: OpenAPIExamples
+}
+
+export type OpenAPIOperation = {
+  operationId: string
+  tags?: string[]
+  description?: string
+  deprecated?: boolean
+  /**
+   * the auth scopes required by api
+   */
+  'x-scopes'?: string[]
+  requestBody: {
+    required: true
+    content: {
+      'application/json': OpenAPIMediaType
+    }
+  }
+  responses: {
+    [status: string]: {
+      description: string
+      content: {
+        'application/json': OpenAPIMediaType
+      }
+    }
+  }
+}
+
+export type OpenAPIDocument = {
+  openapi: '3.1.0'
+  info: OpenAPIInfo
+  servers?: OpenAPIServer[]
+  paths: {
+    [path: string]: {
+      post: OpenAPIOperation
+    }
+  }
+  components: {
+    schemas: {
+      [name: string]: OpenAPISchema
+    }
+  }
+}
+
+export type ToOpenAPIOptions = {
+  /**
+   * default: { title: 'Farrow-API', version: '1.0.0' }
+   */
+  info?: OpenAPIInfo
+  /**
+   * the urls of api services, the path of an operation is relative to them
+   */
+  servers?: OpenAPIServer[]
+  /**
+   * include internal apis or not
+   * default: false
+   */
+  internal?: boolean
+}
+
+const getApis = (formatEntries: FormatEntries, path: string[] = []): [string[], FormatApi][] => {
+  const apis: [string[], FormatApi][] = []
+
+  for (const key in formatEntries.entries) {
+    const entry = formatEntries.entries[key]
+
+    if (entry.type === 'Api') {
+      apis.push([[...path, key], entry])
+    } else {
+      apis.push(...getApis(entry, [...path, key]))
+    }
+  }
+
+  return apis
+}
+
+const objectSchema = (properties: { [key: string]: OpenAPISchema }): OpenAPISchema => {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+  }
+}
+
+/**
+ * describe the apis of entries by OpenAPI 3.1
+ * every api is an operation posting the Farrow-API calling to the path of api, like /nested/getUser
+ * named types are shared in components, other types are inlined
+ */
+export const toOpenAPI = (entries: ApiEntries, options: ToOpenAPIOptions = {}): OpenAPIDocument => {
+  const { types, entries: formatEntries } = toJSON(entries, { internal: options.internal ?? false })
+  const typeIds = Object.keys(types)
+
+  // transform all types at once, definitions are keyed by typeId
+  const definitions = (
+    typeIds.length > 0 ? transformResult({ typeId: Number(typeIds[0]), types }).definitions : {}
+  ) as { [typeId: string]: JSONSchema7 }
+
+  const names = getComponentNames(types)
+  const converted = new Map<string, OpenAPISchema>()
+
+  const getDefinition = (typeId: string): OpenAPISchema => {
+    if (converted.has(typeId)) {
+      return converted.get(typeId)!
+    }
+
+    const schema = convertSchema(definitions[typeId])
+    const type = types[typeId]
+
+    // transform does not mark fields as required or deprecated
+    if (type.type === 'Object' || type.type === 'Struct') {
+      const properties = schema.properties as { [key: string]: OpenAPISchema }
+      const required = Object.keys(type.fields).filter((key) => {
+        const field = type.fields[key]
+        return types[field.typeId].type !== 'Nullable' && field.default === undefined
+      })
+
+      for (const key in type.fields) {
+        if (type.fields[key].deprecated) {
+          properties[key] = { ...properties[key], deprecated: true }
+        }
+      }
+
+      if (required.length > 0) {
+        schema.required = required
+      }
+    }
+
+    converted.set(typeId, schema)
+
+    return schema
+  }
+
+  const getSchema = (typeId: string): OpenAPISchema => {
+    const name = names.get(typeId)
+
+    if (name) {
+      return { $ref: `#/components/schemas/${name}` }
+    }
+
+    // unnamed types never refer to themselves without Lazy, which is always named
+    return getDefinition(typeId)
+  }
+
+  const convertSchema = (schema: JSONSchema7Definition): OpenAPISchema => {
+    if (typeof schema === 'boolean') {
+      return schema ? {} : { not: {} }
+    }
+
+    const result: OpenAPISchema = schema.$ref ? { ...getSchema(schema.$ref.replace('#/definitions/', '')) } : {}
+
+    for (const [key, value] of Object.entries(schema)) {
+      if (value === undefined || key === '$ref' || key === '$id') {
+        continue
+      }
+
+      if (key === 'items' || key === 'additionalItems') {
+        // tuples are described by prefixItems, and additionalItems was replaced by items in 2020-12
+        if (Array.isArray(value)) {
+          result.prefixItems = value.map(convertSchema)
+        } else {
+          result.items = convertSchema(value)
+        }
+      } else if (key === 'const') {
+        // transform wraps the value of const in an array, literals are never arrays
+        result.const = Array.isArray(value) && value.length === 1 ? value[0] : value
+      } else if (key === 'properties') {
+        result.properties = Object.fromEntries(
+          Object.entries(value as { [key: string]: JSONSchema7Definition }).map(([name, item]) => [
+            name,
+            convertSchema(item),
+          ]),
+        )
+      } else if (key === 'oneOf' || key === 'anyOf' || key === 'allOf') {
+        result[key] = (value as JSONSchema7Definition[]).map(convertSchema)
+      } else if (key === 'additionalProperties' || key === 'propertyNames') {
+        result[key] = typeof value === 'boolean' && key === 'additionalProperties' ? value : convertSchema(value)
+      } else {
+        result[key] = value
+      }
+    }
+
+    return result
+  }
+
+  const getFieldSchema = (field: FormatField): OpenAPISchema => {
+    return {
+      ...getSchema(`${field.typeId}`),
+      description: field.description,
+      deprecated: field.deprecated ? true : undefined,
+    }
+  }
+
+  const getErrorSchema = (api: FormatApi): OpenAPISchema => {
+    const errorSchema = objectSchema({
+      message: { type: 'string' },
+    })
+
+    if (!api.errors) {
+      return errorSchema
+    }
+
+    const errors = api.errors
+
+    return {
+      anyOf: [
+        errorSchema,
+        ...Object.keys(errors).map((code) => {
+          return objectSchema({
+            message: { type: 'string' },
+            code: { const: code },
+            payload: getFieldSchema(errors[code]),
+          })
+        }),
+      ],
+    }
+  }
+
+  const getExamples = (
+    api: FormatApi,
+    getValue: (example: FormatApiExample) => unknown,
+  ): OpenAPIExamples | undefined => {
+    if (!api.examples || api.examples.length === 0) {
+      return undefined
+    }
+
+    const examples: OpenAPIExamples = {}
+
+    api.examples.forEach((example, index) => {
+      examples[`example${index}`] = {
+        summary: example.description,
+        value: getValue(example),
+      }
+    })
+
+    return examples
+  }
+
+  const getOperation = (path: string[], api: FormatApi): OpenAPIOperation => {
+    const description = [api.description, api.deprecated && `Deprecated: ${api.deprecated}`].filter(Boolean)
+
+    return {
+      operationId: path.join('.'),
+      tags: api.tags,
+      description: description.length > 0 ? description.join('\n\n') : undefined,
+      deprecated: api.deprecated ? true : undefined,
+      'x-scopes': api.scopes,
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: objectSchema({
+              type: { const: 'Single' },
+              path: { const: path },
+              input: getFieldSchema(api.input),
+            }),
+            examples: getExamples(api, (example) => ({ type: 'Single', path, input: example.input })),
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'ApiSingleSuccessResponse or ApiErrorResponse',
+          content: {
+            'application/json': {
+              schema: {
+                oneOf: [
+                  objectSchema({
+                    type: { const: 'ApiSingleSuccessResponse' },
+                    output: getFieldSchema(api.output),
+                  }),
+                  objectSchema({
+                    type: { const: 'ApiErrorResponse' },
+                    error: getErrorSchema(api),
+                  }),
+                ],
+              },
+              examples: getExamples(api, (example) => ({ type: 'ApiSingleSuccessResponse', output: example.output })),
+            },
+          },
+        },
+      },
+    }
+  }
+
+  const paths: OpenAPIDocument['paths'] = {}
+
+  for (const [path, api] of getApis(formatEntries)) {
+    paths[`/${path.join('/')}`] = {
+      post: getOperation(path, api),
+    }
+  }
+
+  const schemas: OpenAPIDocument['components']['schemas'] = {}
+
+  for (const [typeId, name] of names) {
+    schemas[name] = getDefinition(typeId)
+  }
+
+  const document: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info: options.info ?? { title: 'Farrow-API', version: '1.0.0' },
+    servers: options.servers,
+    paths,
+    components: {
+      schemas,
+    },
+  }
+
+  // drop the keys of undefined values
+  return JSON.parse(JSON.stringify(document))
+}
+
+/**
+ * named types and Lazy types are components, the names are unique and only contain the characters OpenAPI allows
+ */
+const getComponentNames = (types: FormatTypes): Map<string, string> => {
+  const names = new Map<string, string>()
+  const usedNames = new Set<string>()
+
+  for (const typeId in types) {
+    const type = types[typeId]
+
+    if (!isNamedFormatType(type) || (!type.name && type.type !== 'Lazy')) {
+      continue
+    }
+
+    let name = (type.name ?? `Type${typeId}`).replace(/[^a-zA-Z0-9._-]/g, '_')
+
+    if (usedNames.has(name)) {
+      name = `${name}_${typeId}`
+    }
+
+    usedNames.add(name)
+    names.set(typeId, name)
+  }
+
+  return names
+}
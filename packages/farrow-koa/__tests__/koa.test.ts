@@ -826,6 +826,8 @@ describe('Http', () => {
           error: {
             path: ['params', 'age'],
             message: 'abc is not an integer',
+            code: 'invalid_type',
+            params: { expected: 'integer', received: 'abc' },
           },
         })
 
@@ -73,6 +73,32 @@ describe('createContext', () => {
       text: 'new text',
     })
   })
+
+  it('inherit Contexts from parent Container', () => {
+    const Context0 = createContext(0)
+
+    const Context1 = createContext('test')
+
+    const parent = createContainer({
+      count: Context0.create(1),
+    })
+
+    const container = createContainer(
+      {
+        text: Context1.create('child text'),
+      },
+      parent,
+    )
+
+    expect(container.read(Context0)).toBe(1)
+    expect(container.read(Context1)).toBe('child text')
+
+    container.write(Context0, 2)
+
+    expect(container.read(Context0)).toBe(2)
+    expect(parent.read(Context0)).toBe(1)
+    expect(parent.read(Context1)).toBe('test')
+  })
 })
 
 describe('createPipeline', () => {
@@ -97,7 +97,11 @@ const createContextMap = (storage: ContextStorage) => {
   return contextMap
 }
 
-export const createContainer = (ContextStorage: ContextStorage = {}): Container => {
+/**
+ * the contexts absent in the container are read from its parent container if given
+ * writing a context only updates the container itself
+ */
+export const createContainer = (ContextStorage: ContextStorage = {}, parent?: Container): Container => {
   const contextMap = createContextMap(ContextStorage)
 
   const read: Container['read'] = (context) => {
@@ -105,6 +109,9 @@ export const createContainer = (ContextStorage: ContextStorage = {}): Container
     if (target) {
       return target[ContextSymbol]
     }
+    if (parent) {
+      return parent.read(context)
+    }
     return context[ContextSymbol]
   }
 
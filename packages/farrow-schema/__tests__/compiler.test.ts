@@ -0,0 +1,241 @@
+import * as Schema from '../src/schema'
+import { compileValidator } from '../src/compiler'
+import { createSchemaValidator, RegExp, Validator, ValidatorOptions, ValidatorType } from '../src/validator'
+import { field, partial } from '../src/helper'
+
+const {
+  Type,
+  ObjectType,
+  Struct,
+  Int,
+  Float,
+  ID,
+  Literal,
+  Enum,
+  List,
+  Union,
+  TaggedUnion,
+  Intersect,
+  Nullable,
+  Record,
+  Json,
+  Any,
+  Unknown,
+  Never,
+  Tuple,
+  Strict,
+  NonStrict,
+  ReadOnly,
+  ReadOnlyDeep,
+  Min,
+  MaxLength,
+  Email,
+  Lazy,
+  Transform,
+  Exact,
+  UnknownKeys,
+  Brand,
+} = Schema
+
+const inputs: unknown[] = [
+  undefined,
+  null,
+  0,
+  1,
+  1.5,
+  NaN,
+  -1,
+  '',
+  '1',
+  '1.5',
+  'abc',
+  'true',
+  'false',
+  'foo@example.com',
+  true,
+  false,
+  [],
+  [1, 2, 3],
+  ['a', 'b'],
+  [1, 'a', null],
+  {},
+  { a: 1 },
+  { id: 'x', name: 'a', age: 1, tags: ['a'], role: 'admin' },
+  { id: '', name: 1, age: '1', tags: [1] },
+  { type: 'A', a: 1 },
+  { type: 'B', b: 'b' },
+  { type: 'B', b: 1 },
+  { type: 'C' },
+  JSON.stringify({ type: 'A', a: 1 }),
+  JSON.stringify({ id: 'x', name: 'a', age: 1, tags: [] }),
+  new Date(0),
+  '2021-01-01',
+]
+
+const optionsList: (ValidatorOptions | undefined)[] = [
+  undefined,
+  { strict: false },
+  { abortEarly: false },
+  { strict: false, abortEarly: false },
+  { unknownKeys: 'reject' },
+  { unknownKeys: 'reject', abortEarly: false },
+  { unknownKeys: 'passthrough' },
+  { freeze: true },
+  { unknownKeys: 'reject', abortEarly: false, formatMessage: (code, params) => `${code}: ${params.received}` },
+]
+
+// invalid dates are never equal to each other, and validators may throw
+const getOutcome = (validate: (input: unknown) => unknown, input: unknown) => {
+  try {
+    const result = validate(input) as { value: unknown }
+    return result.value instanceof Date ? { ...result, value: `${result.value}` } : result
+  } catch (error) {
+    return error
+  }
+}
+
+const expectSameResults = (Ctor: Schema.SchemaCtor) => {
+  for (const options of optionsList) {
+    const validate = createSchemaValidator(Ctor, options)
+    const compiled = compileValidator(Ctor, options)
+
+    for (const input of inputs) {
+      expect(getOutcome(compiled, input)).toEqual(getOutcome(validate, input))
+    }
+  }
+}
+
+describe('compileValidator', () => {
+  it('supports scalar schemas', () => {
+    expectSameResults(Number)
+    expectSameResults(String)
+    expectSameResults(Boolean)
+    expectSameResults(Date)
+    expectSameResults(Int)
+    expectSameResults(Float)
+    expectSameResults(ID)
+    expectSameResults(Any)
+    expectSameResults(Unknown)
+  })
+
+  it('supports literal schemas', () => {
+    expectSameResults(Literal(1))
+    expectSameResults(Literal('abc'))
+    expectSameResults(Literal(true))
+    expectSameResults(Literal(false))
+    expectSameResults(Literal(null))
+    expectSameResults(Enum('Value', ['abc', 1, 'true']))
+  })
+
+  it('supports composite schemas', () => {
+    class User extends ObjectType {
+      id = ID
+      name = String
+      age = {
+        description: 'age',
+        [Type]: Int,
+      }
+      tags = List(String)
+      role = field({
+        [Type]: Union(Literal('admin'), Literal('user')),
+        default: 'user' as const,
+      })
+    }
+
+    expectSameResults(User)
+    expectSameResults(Struct({ id: ID, nested: { a: Int } }))
+    expectSameResults(partial(User))
+    expectSameResults(List(Int))
+    expectSameResults(Nullable(Int))
+    expectSameResults(Record(Int))
+    expectSameResults(Record(Union(Literal('a'), Literal('b')), Int))
+    expectSameResults(Record(MaxLength(String, 1), Nullable(Int)))
+    expectSameResults(Tuple(Int, String, Nullable(Int)))
+    expectSameResults(Union(Int, String, Never))
+    expectSameResults(Intersect(Struct({ a: Int }), Struct({ id: String })))
+    expectSameResults(
+      TaggedUnion('type', {
+        A: { a: Int },
+        B: { b: String },
+      }),
+    )
+  })
+
+  it('supports modifier schemas', () => {
+    expectSameResults(Strict(List(Int)))
+    expectSameResults(NonStrict(Struct({ a: Int, b: Strict(Int) })))
+    expectSameResults(ReadOnly(List(Int)))
+    expectSameResults(ReadOnlyDeep(Struct({ a: Int })))
+    expectSameResults(Min(Int, 1))
+    expectSameResults(MaxLength(String, 2))
+    expectSameResults(Email)
+    expectSameResults(Brand(String, 'UserId'))
+    expectSameResults(Schema.SetOf(Int))
+    expectSameResults(Schema.MapOf(String, Schema.BigInt))
+    expectSameResults(Brand(Int, 'Even', (value) => value % 2 === 0))
+    expectSameResults(Exact(Struct({ id: String, nested: UnknownKeys({ a: Int }, 'passthrough') })))
+    expectSameResults(Exact(Intersect(Struct({ a: Int }), Struct({ id: String }))))
+    expectSameResults(
+      Transform(Int, {
+        decode: (input) => {
+          if (input < 0) throw new Error('negative')
+          return `${input}`
+        },
+        encode: (value) => Number(value),
+      }),
+    )
+  })
+
+  it('supports recursive schemas', () => {
+    class Node extends ObjectType {
+      a = Nullable(Int)
+      children = List(Node)
+    }
+
+    type Tree = number | Tree[]
+
+    const Tree: new () => Schema.Schema & { __type: Tree } = Union(Int, List(Lazy(() => Tree)))
+
+    expectSameResults(Node)
+    expectSameResults(Tree)
+
+    const validate = compileValidator(Node)
+
+    expect(validate({ a: 1, children: [{ a: null, children: [] }] }).isOk).toBe(true)
+    expect(validate({ a: 1, children: [{ a: 'a', children: [] }] }).isOk).toBe(false)
+  })
+
+  it('supports freezing the output of read-only schemas', () => {
+    const validate = compileValidator(Struct({ a: ReadOnly(List(Int)), b: ReadOnlyDeep({ c: List(Int) }) }), {
+      freeze: true,
+    })
+    const value = validate({ a: [1], b: { c: [2] } })
+
+    expect(value.isOk && Object.isFrozen(value.value)).toBe(false)
+    expect(value.isOk && Object.isFrozen(value.value.a)).toBe(true)
+    expect(value.isOk && Object.isFrozen(value.value.b.c)).toBe(true)
+  })
+
+  it('falls back to Validator for custom schemas', () => {
+    class Even extends ValidatorType<number> {
+      validate(input: unknown) {
+        if (typeof input === 'number' && input % 2 === 0) {
+          return this.Ok(input)
+        }
+        return this.Err(`${input} is not even`)
+      }
+    }
+
+    class Custom extends Schema.Schema {
+      __type!: string
+    }
+
+    Validator.impl(Custom, {
+      validate: (input) => Validator.validate(String, input),
+    })
+
+    expectSameResults(List(Even))
+    expectSameResults(Struct({ a: Custom, b: RegExp(/^a/) }))
+    expectSameResults(Json)
+  })
+})
@@ -0,0 +1,192 @@
+import * as Schema from '../src/schema'
+import { encode } from '../src/encoder'
+import { Validator } from '../src/validator'
+import { partial } from '../src/helper'
+
+const { ObjectType, Struct, Int, List, Union, TaggedUnion, Nullable, Record, Tuple, Transform, Lazy } = Schema
+
+const Timestamp = Transform(Int, {
+  decode: (input) => new Date(input),
+  encode: (value) => value.getTime(),
+})
+
+const EntriesMap = Transform(List(Tuple(Schema.String, Int)), {
+  decode: (input) => new Map(input),
+  encode: (value) => [...value.entries()],
+})
+
+describe('Encoder', () => {
+  it('keeps value as it is when there is nothing to encode', () => {
+    const User = Struct({
+      name: Schema.String,
+      age: Int,
+    })
+
+    const user = {
+      name: 'a',
+      age: 1,
+    }
+
+    expect(encode(User, user)).toEqual(user)
+    expect(encode(Int, 1)).toBe(1)
+  })
+
+  it('supports encoding Transform', () => {
+    expect(encode(Timestamp, new Date(10))).toBe(10)
+    expect(encode(EntriesMap, new Map([['a', 1]]))).toEqual([['a', 1]])
+  })
+
+  it('supports encoding Transform nested in other schemas', () => {
+    class Event extends ObjectType {
+      at = Timestamp
+      history = List(Timestamp)
+      next = Nullable(Timestamp)
+      tuple = Tuple(Timestamp, Int)
+      record = Record(Timestamp)
+    }
+
+    const value = {
+      at: new Date(1),
+      history: [new Date(2), new Date(3)],
+      next: null,
+      tuple: [new Date(4), 5] as [Date, number],
+      record: {
+        a: new Date(6),
+      },
+    }
+
+    const wire = {
+      at: 1,
+      history: [2, 3],
+      next: null,
+      tuple: [4, 5],
+      record: {
+        a: 6,
+      },
+    }
+
+    expect(encode(Event, value)).toEqual(wire)
+
+    const result = Validator.validate(Event, wire)
+
+    expect(result.isOk && result.value).toEqual(value)
+
+    const PartialEvent = partial(Event)
+
+    expect(encode(PartialEvent, { at: new Date(1) })).toEqual({ at: 1 })
+  })
+
+  it('supports encoding Transform in unions', () => {
+    const Value = Union(Schema.String, Timestamp)
+
+    expect(encode(Value, 'a')).toBe('a')
+    expect(encode(Value, new Date(1))).toBe(1)
+
+    const Shape = TaggedUnion('kind', {
+      Point: {
+        at: Timestamp,
+      },
+    })
+
+    expect(encode(Shape, { kind: 'Point', at: new Date(1) })).toEqual({
+      kind: 'Point',
+      at: 1,
+    })
+  })
+
+  it('supports encoding recursive schema', () => {
+    type Node = {
+      at: Date
+      children: Node[]
+    }
+
+    const Node: new () => Schema.Schema & { __type: Node } = Struct({
+      at: Timestamp,
+      children: List(Lazy(() => Node)),
+    })
+
+    expect(encode(Node, { at: new Date(1), children: [{ at: new Date(2), children: [] }] })).toEqual({
+      at: 1,
+      children: [{ at: 2, children: [] }],
+    })
+  })
+
+  it('supports encoding built-in kinds to their wire values', () => {
+    const File = Struct({
+      size: Schema.BigInt,
+      content: Schema.Bytes,
+      url: Schema.Url,
+      tags: Schema.SetOf(Schema.String),
+      history: Schema.MapOf(Timestamp, Schema.SetOf(Int)),
+    })
+
+    const value = {
+      size: BigInt('9007199254740993'),
+      content: new Uint8Array([104, 105, 33]),
+      url: new URL('https://www.farrowjs.com/docs'),
+      tags: new Set(['a', 'b']),
+      history: new Map([[new Date(1), new Set([1, 2])]]),
+    }
+
+    const wire = {
+      size: '9007199254740993',
+      content: 'aGkh',
+      url: 'https://www.farrowjs.com/docs',
+      tags: ['a', 'b'],
+      history: [[1, [1, 2]]],
+    }
+
+    expect(encode(File, value)).toEqual(wire)
+
+    // wire value is decoded back by validator
+    const result = Validator.validate(File, JSON.parse(JSON.stringify(wire)))
+
+    expect(result.isOk && result.value).toEqual(value)
+  })
+
+  it('supports encoding schemas wrapped by Exact and UnknownKeys', () => {
+    const Data = Struct({
+      size: Schema.BigInt,
+      content: Schema.Bytes,
+      counts: Schema.MapOf(Schema.String, Int),
+    })
+
+    const value = {
+      size: BigInt(10),
+      content: new Uint8Array([104, 105, 33]),
+      counts: new Map([['a', 1]]),
+    }
+
+    const wire = {
+      size: '10',
+      content: 'aGkh',
+      counts: [['a', 1]],
+    }
+
+    expect(encode(Schema.Exact(Data), value)).toEqual(wire)
+    expect(encode(Schema.UnknownKeys(Data, 'strip'), value)).toEqual(wire)
+    expect(encode(Schema.UnknownKeys(Data, 'passthrough'), value)).toEqual(wire)
+    expect(encode(Schema.UnknownKeys(Data, 'reject'), value)).toEqual(wire)
+  })
+
+  it('only encodes the declared fields unless unknown keys are passed through', () => {
+    const Data = Struct({
+      size: Schema.BigInt,
+    })
+
+    const value = {
+      size: BigInt(10),
+      password: 'secret',
+    }
+
+    expect(encode(Data, value)).toEqual({ size: '10' })
+    expect(encode(Schema.UnknownKeys(Data, 'passthrough'), value)).toEqual({ size: '10', password: 'secret' })
+  })
+
+  it('encodes unions by the item accepting the runtime value', () => {
+    const Value = Union(Schema.BigInt, Struct({ size: Schema.BigInt }))
+
+    expect(encode(Value, BigInt(10))).toBe('10')
+    expect(encode(Value, { size: BigInt(10) })).toEqual({ size: '10' })
+  })
+})
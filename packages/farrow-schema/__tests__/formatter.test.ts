@@ -6,6 +6,7 @@ import {
   Int,
   Float,
   Literal,
+  Enum,
   List,
   Union,
   Intersect,
@@ -19,10 +20,24 @@ import {
   ReadOnly,
   ReadOnlyDeep,
   Tuple,
+  Min,
+  Max,
+  Email,
+  Lazy,
+  TaggedUnion,
+  Transform,
+  Exact,
+  UnionType,
+  Brand,
+  BigInt,
+  Bytes,
+  Url,
+  SetOf,
+  MapOf,
 } from '../src/schema'
 
-import { formatSchema } from '../src/formatter'
-import { partial } from '../src/helper'
+import { formatSchema, FormatNullableType, FormatStructType } from '../src/formatter'
+import { partial, field, extend, merge, mapFields, required, deepPartial } from '../src/helper'
 
 describe('Formatter', () => {
   it('supports format Number', () => {
@@ -233,6 +248,42 @@ describe('Formatter', () => {
     })
   })
 
+  it('support format Record with typed keys', () => {
+    const result = formatSchema(Record(Union(Literal('a'), Literal('b')), Int))
+
+    expect(result).toEqual({
+      typeId: 4,
+      types: {
+        '0': {
+          type: 'Literal',
+          value: 'a',
+        },
+        '1': {
+          type: 'Literal',
+          value: 'b',
+        },
+        '2': {
+          type: 'Union',
+          itemTypes: [
+            { typeId: 0, $ref: '#/types/0' },
+            { typeId: 1, $ref: '#/types/1' },
+          ],
+        },
+        '3': {
+          type: 'Scalar',
+          valueType: 'number',
+          valueName: 'Int',
+        },
+        '4': {
+          type: 'Record',
+          keyTypeId: 2,
+          valueTypeId: 3,
+          $ref: `#/types/3`,
+        },
+      },
+    })
+  })
+
   it('support format Nullable', () => {
     const result = formatSchema(Nullable(Int))
 
@@ -713,6 +764,70 @@ describe('Formatter', () => {
     })
   })
 
+  it('keeps names and descriptions of composed schemas', () => {
+    class Profile extends ObjectType {
+      bio = Nullable(String)
+    }
+
+    class User extends ObjectType {
+      name = {
+        [Type]: String,
+        description: 'user name',
+      }
+      profile = Profile
+    }
+
+    const { typeId, types } = formatSchema(deepPartial(User))
+    const user = types[typeId] as FormatStructType
+    const profile = types[(types[user.fields.profile.typeId] as FormatNullableType).itemTypeId]
+
+    expect(user).toMatchObject({
+      type: 'Struct',
+      name: 'DeepPartialUser',
+      fields: {
+        name: { description: 'user name' },
+      },
+    })
+    expect(profile).toMatchObject({ type: 'Struct', name: 'DeepPartialProfile' })
+
+    const required0 = formatSchema(required(Profile))
+    const extended0 = formatSchema(extend(User, { age: Int }))
+    const extendedUser = extended0.types[extended0.typeId] as FormatStructType
+
+    expect(required0.types[required0.typeId]).toMatchObject({ type: 'Struct', name: 'RequiredProfile' })
+    expect(extendedUser.fields.name).toMatchObject({ description: 'user name' })
+    expect(extended0.types[extendedUser.fields.profile.typeId]).toMatchObject({ type: 'Object', name: 'Profile' })
+  })
+
+  it('names the schemas composed by extend, merge and mapFields after their sources', () => {
+    class User extends ObjectType {
+      name = String
+    }
+
+    const Timestamps = Struct({
+      createdAt: Int,
+    })
+
+    const extended = formatSchema(extend(User, { age: Int }))
+    const merged = formatSchema(merge(User, Timestamps))
+    const mapped = formatSchema(mapFields(User, (field) => Nullable(field[Type])))
+
+    expect(extended.types[extended.typeId]).toMatchObject({ type: 'Struct', name: 'ExtendedUser' })
+    expect(merged.types[merged.typeId]).toMatchObject({ type: 'Struct', name: 'MergedUser' })
+    expect(mapped.types[mapped.typeId]).toMatchObject({ type: 'Struct', name: 'MappedUser' })
+
+    Timestamps.displayName = 'Timestamps'
+
+    const mergedNamed = formatSchema(merge(User, Timestamps))
+
+    expect(mergedNamed.types[mergedNamed.typeId]).toMatchObject({ type: 'Struct', name: 'MergedUserTimestamps' })
+
+    // unnamed sources make unnamed schemas
+    const anonymous = formatSchema(extend(Struct({ id: Int }), { age: Int }))
+
+    expect(anonymous.types[anonymous.typeId]).toMatchObject({ type: 'Struct', name: undefined })
+  })
+
   it('support format partial struct/object', () => {
     class User extends ObjectType {
       name = String
@@ -822,4 +937,318 @@ describe('Formatter', () => {
       },
     })
   })
+
+  it('supports format constraints', () => {
+    const result = formatSchema(
+      Struct({
+        age: Max(Min(Int, 0), 150),
+        email: Email,
+      }),
+    )
+
+    expect(result).toEqual({
+      typeId: 0,
+      types: {
+        '0': {
+          type: 'Struct',
+          fields: {
+            age: {
+              typeId: 2,
+              $ref: '#/types/2',
+            },
+            email: {
+              typeId: 4,
+              $ref: '#/types/4',
+            },
+          },
+        },
+        '1': {
+          type: 'Scalar',
+          valueType: 'number',
+          valueName: 'Int',
+        },
+        '2': {
+          type: 'Constrained',
+          itemTypeId: 1,
+          $ref: '#/types/1',
+          constraints: {
+            min: 0,
+            max: 150,
+          },
+        },
+        '3': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'String',
+        },
+        '4': {
+          type: 'Constrained',
+          itemTypeId: 3,
+          $ref: '#/types/3',
+          constraints: {
+            format: 'email',
+          },
+        },
+      },
+    })
+  })
+
+  it('supports format default value of fields', () => {
+    const result = formatSchema(
+      Struct({
+        role: field({
+          [Type]: String,
+          default: 'user',
+        }),
+        tags: field({
+          [Type]: List(String),
+          default: () => [],
+        }),
+      }),
+    )
+
+    expect(result).toEqual({
+      typeId: 0,
+      types: {
+        '0': {
+          type: 'Struct',
+          fields: {
+            role: {
+              typeId: 1,
+              $ref: '#/types/1',
+              default: 'user',
+            },
+            tags: {
+              typeId: 2,
+              $ref: '#/types/2',
+            },
+          },
+        },
+        '1': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'String',
+        },
+        '2': {
+          type: 'List',
+          itemTypeId: 1,
+          $ref: '#/types/1',
+        },
+      },
+    })
+  })
+
+  it('supports format recursive schema via Lazy', () => {
+    const Tree: new () => UnionType = Union(Int, List(Lazy(() => Tree)))
+
+    const result = formatSchema(Tree)
+
+    expect(result).toEqual({
+      typeId: 3,
+      types: {
+        '0': {
+          type: 'Scalar',
+          valueType: 'number',
+          valueName: 'Int',
+        },
+        '1': {
+          type: 'Lazy',
+          itemTypeId: 3,
+          $ref: '#/types/3',
+        },
+        '2': {
+          type: 'List',
+          itemTypeId: 1,
+          $ref: '#/types/1',
+        },
+        '3': {
+          type: 'Union',
+          itemTypes: [
+            { typeId: 0, $ref: '#/types/0' },
+            { typeId: 2, $ref: '#/types/2' },
+          ],
+        },
+      },
+    })
+
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result)
+  })
+
+  it('supports format tagged union', () => {
+    const Shape = TaggedUnion('kind', {
+      Circle: {
+        radius: Float,
+      },
+    })
+
+    Shape.displayName = 'Shape'
+
+    const result = formatSchema(Shape)
+
+    expect(JSON.parse(JSON.stringify(result))).toEqual({
+      typeId: 1,
+      types: {
+        '0': {
+          type: 'Struct',
+          fields: {
+            radius: {
+              typeId: 2,
+              $ref: '#/types/2',
+            },
+          },
+        },
+        '1': {
+          type: 'TaggedUnion',
+          name: 'Shape',
+          tag: 'kind',
+          itemTypes: [{ value: 'Circle', typeId: 0, $ref: '#/types/0' }],
+        },
+        '2': {
+          type: 'Scalar',
+          valueType: 'number',
+          valueName: 'Float',
+        },
+      },
+    })
+  })
+
+  it('supports format wire type of Transform', () => {
+    const Timestamp = Transform(Int, {
+      decode: (input) => new globalThis.Date(input),
+      encode: (value) => value.getTime(),
+    })
+
+    expect(formatSchema(Timestamp)).toEqual(formatSchema(Int))
+  })
+
+  it('supports format UnknownKeys', () => {
+    const result = formatSchema(Exact(Int))
+
+    expect(result).toEqual({
+      typeId: 1,
+      types: {
+        '0': {
+          type: 'Scalar',
+          valueType: 'number',
+          valueName: 'Int',
+        },
+        '1': {
+          type: 'UnknownKeys',
+          unknownKeys: 'reject',
+          itemTypeId: 0,
+          $ref: '#/types/0',
+        },
+      },
+    })
+  })
+
+  it('supports format enum', () => {
+    const Level = Enum('Level', {
+      Low: 1,
+      High: 2,
+    })
+
+    expect(formatSchema(List(Level))).toEqual({
+      typeId: 1,
+      types: {
+        '0': {
+          type: 'Enum',
+          name: 'Level',
+          values: [1, 2],
+          members: {
+            Low: 1,
+            High: 2,
+          },
+        },
+        '1': {
+          type: 'List',
+          itemTypeId: 0,
+          $ref: '#/types/0',
+        },
+      },
+    })
+  })
+
+  it('supports format brand', () => {
+    const UserId = Brand(String, 'UserId')
+    const UserEmail = Brand(Email, 'UserEmail')
+
+    expect(formatSchema(Struct({ id: UserId, email: UserEmail }))).toEqual({
+      typeId: 0,
+      types: {
+        '0': {
+          type: 'Struct',
+          fields: {
+            id: {
+              typeId: 1,
+              $ref: '#/types/1',
+            },
+            email: {
+              typeId: 3,
+              $ref: '#/types/3',
+            },
+          },
+        },
+        '1': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'String',
+          brand: 'UserId',
+        },
+        '2': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'String',
+          brand: 'UserEmail',
+        },
+        '3': {
+          type: 'Constrained',
+          itemTypeId: 2,
+          $ref: '#/types/2',
+          constraints: {
+            format: 'email',
+          },
+        },
+      },
+    })
+
+    expect(() => formatSchema(Brand(List(Int), 'Ids'))).toThrow(
+      'Brand Ids should be based on a scalar schema, but got List',
+    )
+  })
+
+  it('supports format set, map and the scalars of built-in kinds', () => {
+    expect(formatSchema(MapOf(Url, SetOf(BigInt)))).toEqual({
+      typeId: 3,
+      types: {
+        '0': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'Url',
+        },
+        '1': {
+          type: 'Scalar',
+          valueType: 'string',
+          valueName: 'BigInt',
+        },
+        '2': {
+          type: 'Set',
+          itemTypeId: 1,
+          $ref: '#/types/1',
+        },
+        '3': {
+          type: 'Map',
+          keyTypeId: 0,
+          valueTypeId: 2,
+          $ref: '#/types/2',
+        },
+      },
+    })
+
+    expect(formatSchema(Bytes).types[0]).toEqual({
+      type: 'Scalar',
+      valueType: 'string',
+      valueName: 'Bytes',
+    })
+  })
 })
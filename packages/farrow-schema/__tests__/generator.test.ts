@@ -0,0 +1,239 @@
+import * as Schema from '../src/schema'
+import { generate, Generator } from '../src/generator'
+import { RegExp, Validator, ValidatorType } from '../src/validator'
+import { field, partial } from '../src/helper'
+
+const {
+  Type,
+  ObjectType,
+  Struct,
+  Int,
+  Float,
+  ID,
+  Literal,
+  Enum,
+  List,
+  Union,
+  TaggedUnion,
+  Intersect,
+  Nullable,
+  Record,
+  Json,
+  Any,
+  Never,
+  Tuple,
+  Strict,
+  ReadOnly,
+  ReadOnlyDeep,
+  Min,
+  Max,
+  MultipleOf,
+  MinLength,
+  MaxLength,
+  Email,
+  Uuid,
+  UrlString,
+  Lazy,
+  Transform,
+  Exact,
+  Brand,
+} = Schema
+
+const seeds = Array.from({ length: 50 }, (_, index) => index)
+
+const expectValid = (Ctor: Schema.SchemaCtor) => {
+  for (const seed of seeds) {
+    const value = generate(Ctor, { seed })
+    const result = Validator.validate(Ctor, value)
+
+    expect(result.isOk).toBe(true)
+  }
+}
+
+class User extends ObjectType {
+  id = ID
+  name = String
+  age = {
+    description: 'age',
+    [Type]: Min(Int, 18),
+  }
+  email = Email
+  tags = List(String)
+  role = field({
+    [Type]: Union(Literal('admin'), Literal('user')),
+    default: 'user' as const,
+  })
+}
+
+describe('Generator', () => {
+  it('generates valid values of scalar schemas', () => {
+    expectValid(Number)
+    expectValid(String)
+    expectValid(Boolean)
+    expectValid(Date)
+    expectValid(Int)
+    expectValid(Float)
+    expectValid(ID)
+    expectValid(Json)
+    expectValid(Any)
+    expectValid(Literal(1))
+    expectValid(Literal(null))
+    expectValid(Enum('Status', ['active', 'archived']))
+    expectValid(Schema.BigInt)
+    expectValid(Schema.Bytes)
+    expectValid(Schema.Url)
+  })
+
+  it('generates valid values of composite schemas', () => {
+    expectValid(User)
+    expectValid(partial(User))
+    expectValid(Struct({ id: ID, nested: { a: Nullable(Int) } }))
+    expectValid(List(Int))
+    expectValid(Record(Nullable(String)))
+    expectValid(Record(Enum('Status', ['active', 'archived']), Int))
+    expectValid(Tuple(Int, String, Nullable(Int)))
+    expectValid(Schema.SetOf(Int))
+    expectValid(Schema.MapOf(String, Schema.SetOf(Schema.Bytes)))
+    expectValid(Union(Int, String, Never))
+    expectValid(Intersect(Struct({ a: Int }), Struct({ id: String })))
+    expectValid(
+      TaggedUnion('type', {
+        A: { a: Int },
+        B: { b: String },
+      }),
+    )
+    expectValid(Exact(Struct({ a: Int })))
+    expectValid(Strict(ReadOnly(ReadOnlyDeep(List(Int)))))
+  })
+
+  it('generates values satisfying constraints', () => {
+    expectValid(Min(Int, 1000))
+    expectValid(Max(Float, -1000))
+    expectValid(Max(Min(Int, 10), 12))
+    expectValid(MultipleOf(Int, 7))
+    expectValid(MinLength(String, 20))
+    expectValid(MaxLength(String, 2))
+    expectValid(MinLength(List(Int), 5))
+    expectValid(Email)
+    expectValid(Uuid)
+    expectValid(UrlString)
+    expectValid(Brand(Int, 'Even', (value) => value % 2 === 0))
+  })
+
+  it('generates values within the bounds of constraints', () => {
+    const { Constrained, Pattern } = Schema
+
+    expectValid(Constrained(Float, { min: 0, max: 1, multipleOf: 0.1 }))
+    expectValid(Constrained(Int, { min: 0, max: 10, multipleOf: 5 }))
+    expectValid(Constrained(Int, { multipleOf: 0.5 }))
+    expectValid(Constrained(Email, { maxLength: 16 }))
+    expectValid(Constrained(UrlString, { minLength: 30 }))
+
+    for (const seed of seeds) {
+      expect(generate(Constrained(String, { minLength: 3, maxLength: 3 }), { seed })).toHaveLength(3)
+      expect(generate(Constrained(List(Int), { minLength: 2, maxLength: 4 }), { seed }).length).toBeGreaterThanOrEqual(
+        2,
+      )
+      expect([0, 5, 10]).toContain(generate(Constrained(Int, { min: 0, max: 10, multipleOf: 5 }), { seed }))
+    }
+
+    expect(() => generate(Constrained(Int, { min: 10, max: 0 }))).toThrow(
+      'Unable to generate a value satisfying the constraints',
+    )
+    expect(() => generate(Constrained(Int, { min: 1, max: 4, multipleOf: 5 }))).toThrow(
+      'Unable to generate a multiple of 5 between 1 and 4',
+    )
+
+    const Code = Pattern(String, '^[A-Z]{3}$')
+
+    expect(() => generate(Code)).toThrow('Generating values matching pattern is unsupported')
+
+    Generator.impl(Code, {
+      generate: (ctx) => ctx.pick(['ABC', 'XYZ']),
+    })
+
+    expectValid(Code)
+  })
+
+  it('generates wire values of Transform', () => {
+    const Timestamp = Transform(Int, {
+      decode: (input) => new Date(input),
+      encode: (value) => value.getTime(),
+    })
+
+    expectValid(Timestamp)
+    expectValid(Struct({ at: Timestamp, history: List(Timestamp) }))
+
+    // the validator decodes them
+    const value = generate(Timestamp, { seed: 1 })
+    const result = Validator.validate(Timestamp, value)
+
+    expect(typeof value).toBe('number')
+    expect(result.isOk && result.value).toEqual(new Date(value))
+  })
+
+  it('generates the same value with the same seed', () => {
+    expect(generate(User, { seed: 1 })).toEqual(generate(User, { seed: 1 }))
+    expect(generate(User, { seed: 1 })).not.toEqual(generate(User, { seed: 2 }))
+  })
+
+  it('limits the depth of recursive schemas', () => {
+    class Node extends ObjectType {
+      value = Int
+      next = Nullable(Node)
+      children = List(Node)
+    }
+
+    type Tree = number | Tree[]
+
+    const Tree: new () => Schema.Schema & { __type: Tree } = Union(Int, List(Lazy(() => Tree)))
+
+    expectValid(Node)
+    expectValid(Tree)
+
+    const getDepth = (node?: Schema.TypeOf<typeof Node> | null): number => {
+      if (!node) return 0
+      return 1 + Math.max(getDepth(node.next), ...node.children.map(getDepth))
+    }
+
+    for (const seed of seeds) {
+      expect(getDepth(generate(Node, { seed, maxDepth: 2 }))).toBeLessThanOrEqual(2)
+    }
+  })
+
+  it('throws when the schema has no finite value', () => {
+    class Loop extends ObjectType {
+      next = Loop
+    }
+
+    expect(() => generate(Loop)).toThrow('Unable to generate a finite value')
+
+    expectValid(Union(Loop, Int))
+  })
+
+  it('supports custom generator impl', () => {
+    class Even extends ValidatorType<number> {
+      validate(input: unknown) {
+        if (typeof input === 'number' && input % 2 === 0) {
+          return this.Ok(input)
+        }
+        return this.Err(`${input} is not even`)
+      }
+    }
+
+    const Code = RegExp(/^[A-Z]{3}$/)
+
+    expect(() => generate(Even)).toThrow('No impl found for Generator')
+
+    Generator.impl(Even, {
+      generate: (ctx) => ctx.integer(0, 50) * 2,
+    })
+
+    Generator.impl(Code, {
+      generate: (ctx) => ctx.pick(['ABC', 'XYZ']),
+    })
+
+    expectValid(List(Even))
+    expectValid(Struct({ code: Code }))
+  })
+})
@@ -1,7 +1,16 @@
 import * as Schema from '../src/schema'
-import { ReadOnly, TypeOf, ReadOnlyDeep } from '../src/schema'
-import { createSchemaValidator, RegExp, ValidationResult, Validator, ValidatorType } from '../src/validator'
-import { pick, omit, keyof, partial } from '../src/helper'
+import { ReadOnly, TypeOf, ReadOnlyDeep, InputTypeOf } from '../src/schema'
+import {
+  AsyncValidatorType,
+  createSchemaValidator,
+  getValidationErrors,
+  RegExp,
+  ValidationLocale,
+  ValidationResult,
+  Validator,
+  ValidatorType,
+} from '../src/validator'
+import { pick, omit, keyof, partial, field, extend, merge, required, deepPartial, mapFields } from '../src/helper'
 
 const {
   Type,
@@ -10,6 +19,7 @@ const {
   Int,
   Float,
   Literal,
+  Enum,
   List,
   Union,
   Intersect,
@@ -19,6 +29,21 @@ const {
   Any,
   Never,
   Tuple,
+  Min,
+  Max,
+  MultipleOf,
+  MinLength,
+  MaxLength,
+  Pattern,
+  Email,
+  Uuid,
+  UrlString,
+  getInstance,
+  Lazy,
+  TaggedUnion,
+  Transform,
+  Exact,
+  UnknownKeys,
 } = Schema
 
 const assertOk = <T>(result: ValidationResult<T>): T => {
@@ -508,6 +533,39 @@ describe('Validator', () => {
     expect(() => assertOk(validateStringRecord({ a: 'a', b: 1 }))).toThrow()
   })
 
+  it('supports record validation with typed keys', () => {
+    const Scores = Record(Union(Literal('math'), Literal('art')), Int)
+    const Counts = Record(Enum('Status', ['active', 'archived']), Int)
+    const Labels = Record(Pattern(String, '^x-'), String)
+
+    type Scores = TypeOf<typeof Scores>
+    type Labels = TypeOf<typeof Labels>
+
+    const scores: { math?: number; art?: number } = assertOk(Validator.validate(Scores, { math: 1 }))
+    const labels: { [key: string]: string } = assertOk(Validator.validate(Labels, { 'x-a': 'a' }))
+
+    const missingScore: Scores = {}
+    // @ts-expect-error
+    const unknownScore: Scores = { music: 1 }
+    const anyLabel: Labels = { a: 'a' }
+
+    expect([missingScore, unknownScore, anyLabel]).toHaveLength(3)
+    expect(scores).toEqual({ math: 1 })
+    expect(labels).toEqual({ 'x-a': 'a' })
+    expect(assertOk(Validator.validate(Counts, { active: 1, archived: 2 }))).toEqual({ active: 1, archived: 2 })
+
+    const scoresResult = Validator.validate(Scores, { math: 1, music: 2 })
+
+    expect(scoresResult.isErr && scoresResult.value.path).toEqual(['music'])
+    expect(() => assertOk(Validator.validate(Counts, { deleted: 1 }))).toThrow()
+    expect(() => assertOk(Validator.validate(Labels, { a: 'a' }))).toThrow()
+    expect(() => assertOk(Validator.validate(Scores, { math: 'a' }))).toThrow()
+
+    const result = Validator.validate(Scores, { math: 'a', music: 2 }, { abortEarly: false })
+
+    expect(result.isErr && getValidationErrors(result.value).map((error) => error.path)).toEqual([['math'], ['music']])
+  })
+
   it('supports any pattern', () => {
     const validateAny = createSchemaValidator(Any)
     expect(assertOk(validateAny(0))).toEqual(0)
@@ -864,6 +922,43 @@ describe('Validator', () => {
     })
   })
 
+  it('supports freezing the output of read-only and read-only-deep', () => {
+    const Struct0 = Struct({
+      a: Int,
+      tags: List(String),
+      c: {
+        d: Boolean,
+        at: Date,
+      },
+    })
+
+    const data = { a: 1, tags: ['a'], c: { d: false, at: new Date() } }
+
+    const value0 = assertOk(Validator.validate(ReadOnly(Struct0), data))
+
+    expect(Object.isFrozen(value0)).toBe(false)
+
+    const value1 = assertOk(Validator.validate(ReadOnly(Struct0), data, { freeze: true }))
+
+    expect(value1).toEqual(data)
+    expect(Object.isFrozen(value1)).toBe(true)
+    expect(Object.isFrozen(value1.tags)).toBe(false)
+    expect(Object.isFrozen(value1.c)).toBe(false)
+
+    const value2 = assertOk(Validator.validate(ReadOnlyDeep(Struct0), data, { freeze: true }))
+
+    expect(value2).toEqual(data)
+    expect(Object.isFrozen(value2)).toBe(true)
+    expect(Object.isFrozen(value2.tags)).toBe(true)
+    expect(Object.isFrozen(value2.c)).toBe(true)
+    // only arrays and plain objects are frozen
+    expect(Object.isFrozen(value2.c.at)).toBe(false)
+
+    expect(() => (value2.tags as string[]).push('b')).toThrow()
+
+    expect(Validator.validate(ReadOnlyDeep(Struct0), { ...data, a: 'a' }, { freeze: true }).isErr).toBe(true)
+  })
+
   it('supports validate tuple', () => {
     const Test = Tuple({ a: Literal('a') }, { b: Literal('b') })
 
@@ -876,6 +971,21 @@ describe('Validator', () => {
     expect(() => assertOk(Validator.validate(Test, []))).toThrow()
   })
 
+  it('puts the index of tuple item before the path of its error', () => {
+    const Test = Struct({
+      points: List(Tuple(Int, { label: String })),
+    })
+
+    const result = Validator.validate(Test, {
+      points: [
+        [1, { label: 'a' }],
+        [2, { label: 3 }],
+      ],
+    })
+
+    expect(result.isErr && result.value.path).toEqual(['points', 1, 1, 'label'])
+  })
+
   it('supports built-in validate schema', () => {
     class DateType extends ValidatorType<Date> {
       validate(input: unknown) {
@@ -1216,4 +1326,864 @@ describe('Validator', () => {
     expect(assertOk(Validator.validate(PartialPerson, { name: 'only-name' }))).toEqual({ name: 'only-name' })
     expect(assertOk(Validator.validate(PartialPerson, { name: 'name', age: 1 }))).toEqual({ name: 'name', age: 1 })
   })
+
+  it('supports extend and merge', () => {
+    class User extends ObjectType {
+      id = Int
+      name = String
+    }
+
+    const Timestamps = Struct({
+      createdAt: Schema.Date,
+      name: Nullable(String),
+    })
+
+    const Admin = extend(User, { role: Literal('admin') })
+    const Stored = merge(User, Timestamps)
+
+    const admin: { id: number; name: string; role: 'admin' } = assertOk(
+      Validator.validate(Admin, { id: 1, name: 'foo', role: 'admin' }),
+    )
+    const stored: { id: number; name?: string | null; createdAt: Date } = assertOk(
+      Validator.validate(Stored, { id: 1, createdAt: 0 }),
+    )
+
+    expect(admin).toEqual({ id: 1, name: 'foo', role: 'admin' })
+    expect(stored).toEqual({ id: 1, name: undefined, createdAt: new Date(0) })
+    expect(() => assertOk(Validator.validate(Admin, { id: 1, name: 'foo' }))).toThrow()
+    expect(() => assertOk(Validator.validate(Stored, { id: 1, name: 'foo' }))).toThrow()
+    expect(() => extend(Int as any, {})).toThrow()
+  })
+
+  it('supports required and deep partial', () => {
+    class Profile extends ObjectType {
+      bio = Nullable(String)
+      age = Int
+    }
+
+    class User extends ObjectType {
+      name = String
+      profile = Profile
+      settings = {
+        theme: String,
+      }
+      tags = List(Struct({ name: String }))
+    }
+
+    const Patch = Struct({
+      name: Nullable(String),
+      tags: List(Int),
+      age: field({
+        [Type]: Nullable(Int),
+        default: 0,
+      }),
+    })
+
+    const FullPatch = required(Patch)
+    const PatchUser = deepPartial(User)
+
+    const fullPatch: { name: string; tags: number[]; age: number } = assertOk(
+      Validator.validate(FullPatch, { name: 'foo', tags: [] }),
+    )
+
+    expect(fullPatch).toEqual({ name: 'foo', tags: [], age: 0 })
+    expect(() => assertOk(Validator.validate(FullPatch, { age: 1 }))).toThrow()
+
+    type PatchUser = TypeOf<typeof PatchUser>
+
+    const patch: PatchUser = assertOk(Validator.validate(PatchUser, { profile: { bio: 'bio' }, settings: {} }))
+    const tags: PatchUser['tags'] = [{ name: 'a' }]
+    // @ts-expect-error
+    const invalidTags: PatchUser['tags'] = [{}]
+
+    expect([tags, invalidTags]).toHaveLength(2)
+    expect(patch).toEqual({ profile: { bio: 'bio' }, settings: {} })
+    expect(assertOk(Validator.validate(PatchUser, {}))).toEqual({})
+    expect(() => assertOk(Validator.validate(PatchUser, { profile: { age: 'a' } }))).toThrow()
+    expect(() => assertOk(Validator.validate(PatchUser, { tags: [{}] }))).toThrow()
+  })
+
+  it('supports deep partial of recursive schema', () => {
+    class Node extends ObjectType {
+      value = Int
+      parent = Nullable(Node)
+    }
+
+    const PatchNode = deepPartial(Node)
+
+    const patch: TypeOf<typeof PatchNode> = assertOk(Validator.validate(PatchNode, { parent: { parent: {} } }))
+
+    expect(patch).toEqual({ parent: { parent: {} } })
+    expect(() => assertOk(Validator.validate(PatchNode, { parent: { value: 'a' } }))).toThrow()
+  })
+
+  it('supports mapping fields', () => {
+    const User = Struct({
+      id: Int,
+      name: {
+        [Type]: String,
+        description: 'user name',
+      },
+    })
+
+    const Filters = mapFields(User, (field) => ({
+      ...field,
+      [Type]: List(field[Type]),
+    }))
+
+    expect(assertOk(Validator.validate(Filters, { id: [1, 2], name: [] }))).toEqual({ id: [1, 2], name: [] })
+    expect(() => assertOk(Validator.validate(Filters, { id: 1, name: [] }))).toThrow()
+    expect(getInstance(Filters).descriptors.name).toMatchObject({ description: 'user name' })
+  })
+
+  it('supports collecting all errors via options.abortEarly', () => {
+    const Test = Struct({
+      a: Int,
+      b: String,
+      c: List(Int),
+      d: Record(Int),
+      e: Tuple(Int, String),
+      f: Intersect({ g: Int }, { h: String }),
+    })
+
+    const input = {
+      a: 'a',
+      b: 1,
+      c: [1, 'c', 'c'],
+      d: { x: 1, y: 'y' },
+      e: ['e', 1],
+      f: { g: 'g', h: 1 },
+    }
+
+    const earlyResult = Validator.validate(Test, input)
+
+    expect(earlyResult.isErr && earlyResult.value).toEqual({
+      path: ['a'],
+      message: 'a is not an integer',
+      code: 'invalid_type',
+      params: { expected: 'integer', received: 'a' },
+    })
+
+    const result = Validator.validate(Test, input, {
+      abortEarly: false,
+    })
+
+    if (result.isOk) throw new Error('It should be failed')
+
+    expect(result.value.path).toEqual(['a'])
+    expect(result.value.message).toBe('a is not an integer')
+    expect(getValidationErrors(result.value).map((error) => error.path)).toEqual([
+      ['a'],
+      ['b'],
+      ['c', 1],
+      ['c', 2],
+      ['d', 'y'],
+      ['e', 0],
+      ['e', 1],
+      ['f', 'g'],
+      ['f', 'h'],
+    ])
+
+    const validate = createSchemaValidator(List({ a: Int }), { abortEarly: false })
+    const listResult = validate([{ a: 1 }, { a: 'x' }, {}])
+
+    expect(listResult.isErr && listResult.value.errors).toEqual([
+      {
+        path: [1, 'a'],
+        message: 'x is not an integer',
+        code: 'invalid_type',
+        params: { expected: 'integer', received: 'x' },
+      },
+      {
+        path: [2, 'a'],
+        message: 'undefined is not an integer',
+        code: 'invalid_type',
+        params: { expected: 'integer', received: undefined },
+      },
+    ])
+
+    expect(assertOk(validate([{ a: 1 }]))).toEqual([{ a: 1 }])
+  })
+
+  it('supports constraints', () => {
+    const Age = Max(Min(Int, 0), 150)
+    const Name = Pattern(MaxLength(MinLength(Schema.String, 1), 5), '^[a-z]+$')
+    const Tags = MaxLength(List(Schema.String), 2)
+    const Even = MultipleOf(Schema.Number, 2)
+
+    expect(assertOk(Validator.validate(Age, 18))).toBe(18)
+    expect(assertOk(Validator.validate(Age, 0))).toBe(0)
+    expect(() => assertOk(Validator.validate(Age, -1))).toThrow('-1 is less than the minimum 0')
+    expect(() => assertOk(Validator.validate(Age, 151))).toThrow('151 is greater than the maximum 150')
+    expect(() => assertOk(Validator.validate(Age, 1.5))).toThrow()
+    expect(assertOk(Validator.validate(Age, '20', { strict: false }))).toBe(20)
+
+    expect(assertOk(Validator.validate(Name, 'abc'))).toBe('abc')
+    expect(() => assertOk(Validator.validate(Name, ''))).toThrow()
+    expect(() => assertOk(Validator.validate(Name, 'abcdef'))).toThrow()
+    expect(() => assertOk(Validator.validate(Name, 'ABC'))).toThrow('ABC was not matched: /^[a-z]+$/')
+
+    expect(assertOk(Validator.validate(Tags, ['a', 'b']))).toEqual(['a', 'b'])
+    expect(() => assertOk(Validator.validate(Tags, ['a', 'b', 'c']))).toThrow()
+
+    expect(assertOk(Validator.validate(Even, 4))).toBe(4)
+    expect(() => assertOk(Validator.validate(Even, 3))).toThrow('3 is not a multiple of 2')
+
+    expect(assertOk(Validator.validate(Email, 'farrow@example.com'))).toBe('farrow@example.com')
+    expect(() => assertOk(Validator.validate(Email, 'farrow'))).toThrow('farrow is not a valid email')
+
+    expect(assertOk(Validator.validate(Uuid, '123e4567-e89b-12d3-a456-426614174000'))).toBe(
+      '123e4567-e89b-12d3-a456-426614174000',
+    )
+    expect(() => assertOk(Validator.validate(Uuid, '123e4567'))).toThrow()
+
+    expect(assertOk(Validator.validate(UrlString, 'https://www.farrowjs.com/docs'))).toBe(
+      'https://www.farrowjs.com/docs',
+    )
+    expect(() => assertOk(Validator.validate(UrlString, 'farrowjs.com'))).toThrow()
+
+    expect(getInstance(Age)).toMatchObject({
+      Item: Int,
+      constraints: {
+        min: 0,
+        max: 150,
+      },
+    })
+
+    const User = Struct({
+      email: MaxLength(Email, 20),
+      age: Age,
+    })
+
+    type User = TypeOf<typeof User>
+
+    const user: User = {
+      email: 'farrow@example.com',
+      age: 1,
+    }
+
+    expect(assertOk(Validator.validate(User, user))).toEqual(user)
+    expect(() => assertOk(Validator.validate(User, { ...user, email: 'farrow.farrow@example.com' }))).toThrow()
+  })
+
+  it('supports default value of fields', () => {
+    const User = Struct({
+      name: Schema.String,
+      role: field({
+        [Type]: Union(Literal('admin'), Literal('user')),
+        default: 'user',
+      }),
+      tags: field({
+        [Type]: List(Schema.String),
+        default: () => [],
+      }),
+      profile: {
+        age: field({
+          [Type]: Int,
+          default: 18,
+        }),
+      },
+    })
+
+    type User = TypeOf<typeof User>
+    type UserInput = InputTypeOf<typeof User>
+
+    const input: UserInput = {
+      name: 'farrow',
+      profile: {},
+    }
+
+    const user: User = assertOk(Validator.validate(User, input))
+
+    expect(user).toEqual({
+      name: 'farrow',
+      role: 'user',
+      tags: [],
+      profile: {
+        age: 18,
+      },
+    })
+
+    expect(assertOk(Validator.validate(User, input)).tags).not.toBe(user.tags)
+
+    expect(
+      assertOk(
+        Validator.validate(User, {
+          name: 'farrow',
+          role: 'admin',
+          tags: ['a'],
+          profile: {
+            age: 20,
+          },
+        }),
+      ),
+    ).toEqual({
+      name: 'farrow',
+      role: 'admin',
+      tags: ['a'],
+      profile: {
+        age: 20,
+      },
+    })
+
+    expect(() => assertOk(Validator.validate(User, { role: 'admin', profile: {} }))).toThrow()
+
+    class Post extends ObjectType {
+      title = Schema.String
+      views = field({
+        [Type]: Int,
+        default: 0,
+      })
+      comments = List(Post)
+    }
+
+    const postInput: InputTypeOf<typeof Post> = {
+      title: 'post',
+      comments: [{ title: 'comment', comments: [] }],
+    }
+
+    const post: TypeOf<typeof Post> = assertOk(Validator.validate(Post, postInput))
+
+    expect(post).toEqual({
+      title: 'post',
+      views: 0,
+      comments: [
+        {
+          title: 'comment',
+          views: 0,
+          comments: [],
+        },
+      ],
+    })
+
+    expect(assertOk(Validator.validate(partial(Post), {}))).toEqual({})
+  })
+
+  it('supports recursive schema via Lazy', () => {
+    type Comment = {
+      text: string
+      replies: Comment[]
+    }
+
+    const Comment: new () => Schema.Schema & { __type: Comment } = Struct({
+      text: Schema.String,
+      replies: List(Lazy(() => Comment)),
+    })
+
+    const comment: Comment = {
+      text: 'a',
+      replies: [
+        {
+          text: 'b',
+          replies: [],
+        },
+      ],
+    }
+
+    expect(assertOk(Validator.validate(Comment, comment))).toEqual(comment)
+
+    const result = Validator.validate(Comment, {
+      text: 'a',
+      replies: [
+        {
+          text: 'b',
+          replies: [{ text: 1, replies: [] }],
+        },
+      ],
+    })
+
+    expect(result.isErr && result.value.path).toEqual(['replies', 0, 'replies', 0, 'text'])
+
+    type Tree = number | Tree[]
+
+    const Tree: new () => Schema.Schema & { __type: Tree } = Union(Int, List(Lazy(() => Tree)))
+
+    expect(assertOk(Validator.validate(Tree, [1, [2, [3]]]))).toEqual([1, [2, [3]]])
+    expect(() => assertOk(Validator.validate(Tree, [1, ['2']]))).toThrow()
+  })
+
+  it('supports tagged union', () => {
+    const Shape = TaggedUnion('kind', {
+      Circle: {
+        radius: Float,
+      },
+      Rect: Struct({
+        width: Float,
+        height: Float,
+      }),
+    })
+
+    type Shape = TypeOf<typeof Shape>
+
+    const circle: Shape = {
+      kind: 'Circle',
+      radius: 1,
+    }
+
+    expect(assertOk(Validator.validate(Shape, circle))).toEqual(circle)
+
+    expect(assertOk(Validator.validate(Shape, { kind: 'Rect', width: 1, height: 2 }))).toEqual({
+      kind: 'Rect',
+      width: 1,
+      height: 2,
+    })
+
+    const result0 = Validator.validate(Shape, { kind: 'Rect', radius: 1 })
+
+    // only the branch of the tag reports errors
+    expect(result0.isErr && result0.value.path).toEqual(['width'])
+
+    const result1 = Validator.validate(Shape, { kind: 'Triangle' })
+
+    expect(result1.isErr && result1.value.path).toEqual(['kind'])
+    expect(result1.isErr && result1.value.message).toBe('Triangle is not one of the tags: Circle, Rect')
+
+    expect(() => assertOk(Validator.validate(Shape, null))).toThrow()
+
+    expect(assertOk(Validator.validate(Shape, JSON.stringify(circle), { strict: false }))).toEqual(circle)
+  })
+
+  it('supports decoding wire value via Transform', () => {
+    const Timestamp = Transform(Int, {
+      decode: (input) => new globalThis.Date(input),
+      encode: (value) => value.getTime(),
+    })
+
+    const Event = Struct({
+      name: Schema.String,
+      at: Timestamp,
+    })
+
+    type Event = TypeOf<typeof Event>
+
+    type EventInput = InputTypeOf<typeof Event>
+
+    const event: Event = assertOk(Validator.validate(Event, { name: 'a', at: 0 }))
+
+    const input: EventInput = {
+      name: 'a',
+      at: 0,
+    }
+
+    expect(event.at).toBeInstanceOf(globalThis.Date)
+    expect(event.at.getTime()).toBe(0)
+    expect(input.at).toBe(0)
+
+    const result = Validator.validate(Event, { name: 'a', at: '0' })
+
+    expect(result.isErr && result.value.path).toEqual(['at'])
+
+    const PositiveInt = Transform(Int, {
+      decode: (input) => {
+        if (input <= 0) throw new Error(`${input} is not positive`)
+        return input
+      },
+      encode: (value) => value,
+    })
+
+    const result1 = Validator.validate(PositiveInt, -1)
+
+    expect(result1.isErr && result1.value.message).toBe('-1 is not positive')
+  })
+
+  it('supports handling unknown keys', () => {
+    const User = Struct({
+      name: Schema.String,
+      info: {
+        age: Int,
+      },
+    })
+
+    const input = {
+      name: 'a',
+      info: {
+        age: 1,
+        extra: 1,
+      },
+      extra: 2,
+    }
+
+    expect(assertOk(Validator.validate(User, input))).toEqual({
+      name: 'a',
+      info: {
+        age: 1,
+      },
+    })
+
+    expect(assertOk(Validator.validate(User, input, { unknownKeys: 'passthrough' }))).toEqual(input)
+
+    const result0 = Validator.validate(User, input, { unknownKeys: 'reject' })
+
+    expect(result0.isErr && result0.value).toEqual({
+      path: ['info', 'extra'],
+      message: 'extra is not a known key',
+      code: 'unknown_key',
+      params: { received: 'extra' },
+    })
+
+    const result1 = Validator.validate(Exact(User), input, { abortEarly: false })
+
+    expect(result1.isErr && getValidationErrors(result1.value)).toEqual([
+      {
+        path: ['info', 'extra'],
+        message: 'extra is not a known key',
+        code: 'unknown_key',
+        params: { received: 'extra' },
+      },
+      {
+        path: ['extra'],
+        message: 'extra is not a known key',
+        code: 'unknown_key',
+        params: { received: 'extra' },
+      },
+    ])
+
+    // the option of schema takes precedence over the one of validator
+    expect(assertOk(Validator.validate(UnknownKeys(User, 'strip'), input, { unknownKeys: 'reject' }))).toEqual({
+      name: 'a',
+      info: {
+        age: 1,
+      },
+    })
+
+    class Post extends ObjectType {
+      title = Schema.String
+    }
+
+    expect(() => assertOk(Validator.validate(Exact(Post), { title: 'a', content: 'b' }))).toThrow()
+  })
+
+  it('supports handling unknown keys of intersect and tagged union', () => {
+    const Named = Struct({
+      name: Schema.String,
+    })
+
+    const Timed = Struct({
+      time: Int,
+    })
+
+    const Both = Exact(Intersect(Named, Timed))
+
+    expect(assertOk(Validator.validate(Both, { name: 'a', time: 1 }))).toEqual({ name: 'a', time: 1 })
+
+    const result = Validator.validate(Both, { name: 'a', time: 1, extra: 1 })
+
+    expect(result.isErr && result.value.path).toEqual(['extra'])
+
+    expect(
+      assertOk(
+        Validator.validate(
+          Intersect(Named, Struct({ time: Schema.Date })),
+          { name: 'a', time: 0, extra: 1 },
+          {
+            unknownKeys: 'passthrough',
+          },
+        ),
+      ),
+    ).toEqual({ name: 'a', time: new Date(0), extra: 1 })
+
+    const Shape = Exact(
+      TaggedUnion('kind', {
+        Circle: {
+          radius: Int,
+        },
+      }),
+    )
+
+    expect(assertOk(Validator.validate(Shape, { kind: 'Circle', radius: 1 }))).toEqual({ kind: 'Circle', radius: 1 })
+
+    expect(() => assertOk(Validator.validate(Shape, { kind: 'Circle', radius: 1, extra: 1 }))).toThrow()
+  })
+
+  it('supports enum', () => {
+    const Status = Enum('Status', ['active', 'archived'])
+
+    type Status = TypeOf<typeof Status>
+
+    const status: Status = 'active'
+
+    expect(assertOk(Validator.validate(Status, status))).toBe('active')
+
+    const result = Validator.validate(Status, 'deleted')
+
+    expect(result.isErr && result.value.message).toBe('deleted is not a value of enum Status')
+
+    const Level = Enum('Level', {
+      Low: 1,
+      High: 2,
+    })
+
+    const level: TypeOf<typeof Level> = 2
+
+    expect(assertOk(Validator.validate(Level, level))).toBe(2)
+    expect(assertOk(Validator.validate(Level, '1', { strict: false }))).toBe(1)
+    expect(() => assertOk(Validator.validate(Level, '1'))).toThrow()
+    expect(() => assertOk(Validator.validate(Level, 3))).toThrow()
+  })
+
+  it('supports async validators', async () => {
+    const names = ['farrow']
+
+    class UniqueName extends AsyncValidatorType<string> {
+      async validateAsync(input: unknown) {
+        const result = Validator.validate(String, input)
+
+        if (result.isErr) return result
+
+        await Promise.resolve()
+
+        if (names.includes(result.value)) {
+          return this.Err(`${result.value} is already taken`)
+        }
+
+        return this.Ok(result.value)
+      }
+    }
+
+    class User extends ObjectType {
+      name = UniqueName
+      age = Int
+      friends = List(Nullable(UniqueName))
+      tags = Record(String)
+    }
+
+    expect(Validator.isAsync(User)).toBe(true)
+    expect(Validator.isAsync(Union(Int, List(UniqueName)))).toBe(true)
+    expect(Validator.isAsync(Struct({ age: Int }))).toBe(false)
+
+    expect(
+      assertOk(await Validator.validateAsync(User, { name: 'a', age: 1, friends: ['b', null], tags: {} })),
+    ).toEqual({
+      name: 'a',
+      age: 1,
+      friends: ['b', null],
+      tags: {},
+    })
+
+    const result = await Validator.validateAsync(User, { name: 'farrow', age: 1, friends: ['farrow'], tags: {} })
+
+    expect(result.isErr && result.value).toEqual({
+      path: ['name'],
+      message: 'farrow is already taken',
+    })
+
+    const allResult = await Validator.validateAsync(
+      User,
+      { name: 'farrow', age: 'a', friends: ['farrow'], tags: {} },
+      { abortEarly: false },
+    )
+
+    expect(allResult.isErr && getValidationErrors(allResult.value)).toEqual([
+      { path: ['name'], message: 'farrow is already taken' },
+      {
+        path: ['age'],
+        message: 'a is not an integer',
+        code: 'invalid_type',
+        params: { expected: 'integer', received: 'a' },
+      },
+      { path: ['friends', 0], message: 'farrow is already taken' },
+    ])
+
+    const Name = Union(Literal('admin'), UniqueName)
+
+    expect(assertOk(await Validator.validateAsync(Name, 'admin'))).toBe('admin')
+    expect(assertOk(await Validator.validateAsync(Name, 'a'))).toBe('a')
+    expect(() => assertOk(Validator.validate(Name, 'a'))).toThrow()
+    expect(() => Validator.validate(UniqueName, 'a')).toThrow(
+      'UniqueName is async, it should be validated by Validator.validateAsync',
+    )
+
+    // schemas without async parts are validated by the sync validators
+    expect(assertOk(await Validator.validateAsync(Int, '1', { strict: false }))).toBe(1)
+  })
+
+  it('supports async validators in recursive schemas', async () => {
+    class Positive extends AsyncValidatorType<number> {
+      async validateAsync(input: unknown) {
+        if (typeof input === 'number' && input > 0) {
+          return this.Ok(input)
+        }
+        return this.Err(`${input} is not positive`)
+      }
+    }
+
+    class Node extends ObjectType {
+      value = Positive
+      children = List(Node)
+    }
+
+    class Plain extends ObjectType {
+      value = Int
+      children = List(Plain)
+    }
+
+    expect(Validator.isAsync(Node)).toBe(true)
+    expect(Validator.isAsync(Plain)).toBe(false)
+
+    expect(assertOk(await Validator.validateAsync(Node, { value: 1, children: [{ value: 2, children: [] }] }))).toEqual(
+      {
+        value: 1,
+        children: [{ value: 2, children: [] }],
+      },
+    )
+
+    const result = await Validator.validateAsync(Node, { value: 1, children: [{ value: 0, children: [] }] })
+
+    expect(result.isErr && result.value).toEqual({
+      path: ['children', 0, 'value'],
+      message: '0 is not positive',
+    })
+  })
+
+  it('supports brand', () => {
+    const UserId = Schema.Brand(String, 'UserId')
+    const OrderId = Schema.Brand(String, 'OrderId')
+    const Even = Schema.Brand(Int, 'Even', (value) => value % 2 === 0)
+
+    type UserId = TypeOf<typeof UserId>
+    type OrderId = TypeOf<typeof OrderId>
+
+    const userId = assertOk(Validator.validate(UserId, 'user-1'))
+    const id: string = userId
+
+    // @ts-expect-error
+    const orderId: OrderId = userId
+
+    expect(id).toBe('user-1')
+    expect(orderId).toBe('user-1')
+
+    // @ts-expect-error
+    const rawId: UserId = 'user-1'
+
+    expect(rawId).toBe('user-1')
+
+    const input: InputTypeOf<typeof UserId> = 'user-2'
+
+    expect(assertOk(Validator.validate(UserId, input))).toBe('user-2')
+    expect(() => assertOk(Validator.validate(UserId, 1))).toThrow()
+
+    expect(assertOk(Validator.validate(Even, 2))).toBe(2)
+    expect(assertOk(Validator.validate(Even, '4', { strict: false }))).toBe(4)
+
+    const result = Validator.validate(Even, 3)
+
+    expect(result.isErr && result.value.message).toBe('3 is not a valid Even')
+    expect(() => assertOk(Validator.validate(Even, 2.5))).toThrow()
+  })
+
+  it('supports bigint, bytes and url', () => {
+    expect(assertOk(Validator.validate(Schema.BigInt, BigInt(1)))).toBe(BigInt(1))
+    expect(assertOk(Validator.validate(Schema.BigInt, '-9007199254740993'))).toBe(BigInt('-9007199254740993'))
+    expect(assertOk(Validator.validate(Schema.BigInt, 10))).toBe(BigInt(10))
+    expect(() => assertOk(Validator.validate(Schema.BigInt, 1.5))).toThrow()
+    expect(() => assertOk(Validator.validate(Schema.BigInt, '1.5'))).toThrow()
+
+    const bytes = new Uint8Array([0, 1, 254, 255])
+
+    expect(assertOk(Validator.validate(Schema.Bytes, bytes))).toBe(bytes)
+    expect(assertOk(Validator.validate(Schema.Bytes, 'AAH+/w=='))).toEqual(bytes)
+    expect(assertOk(Validator.validate(Schema.Bytes, ''))).toEqual(new Uint8Array([]))
+    expect(() => assertOk(Validator.validate(Schema.Bytes, 'AAH'))).toThrow()
+    expect(() => assertOk(Validator.validate(Schema.Bytes, [0, 1]))).toThrow()
+
+    const url: URL = assertOk(Validator.validate(Schema.Url, 'https://www.farrowjs.com/docs?a=1'))
+
+    expect(url).toBeInstanceOf(URL)
+    expect(url.searchParams.get('a')).toBe('1')
+    expect(assertOk(Validator.validate(Schema.Url, url))).toBe(url)
+
+    const result = Validator.validate(Schema.Url, 'farrowjs.com')
+
+    expect(result.isErr && result.value.message).toBe('farrowjs.com is not a valid url')
+  })
+
+  it('supports set and map', () => {
+    const Tags = Schema.SetOf(String)
+    const Scores = Schema.MapOf(String, Int)
+
+    const tags: Set<string> = assertOk(Validator.validate(Tags, ['a', 'b', 'a']))
+
+    expect(tags).toEqual(new Set(['a', 'b']))
+    expect(assertOk(Validator.validate(Tags, new Set(['c'])))).toEqual(new Set(['c']))
+
+    const scores: Map<string, number> = assertOk(
+      Validator.validate(Scores, [
+        ['a', 1],
+        ['b', 2],
+      ]),
+    )
+
+    expect(scores).toEqual(
+      new Map([
+        ['a', 1],
+        ['b', 2],
+      ]),
+    )
+    expect(assertOk(Validator.validate(Scores, new Map([['c', 3]])))).toEqual(new Map([['c', 3]]))
+
+    const tagsResult = Validator.validate(Tags, ['a', 1])
+
+    expect(tagsResult.isErr && tagsResult.value.path).toEqual([1])
+
+    const scoresResult = Validator.validate(Scores, [
+      ['a', 1],
+      ['b', 'x'],
+    ])
+
+    expect(scoresResult.isErr && scoresResult.value.path).toEqual([1, 1])
+
+    expect(() => assertOk(Validator.validate(Scores, { a: 1 }))).toThrow()
+    expect(() => assertOk(Validator.validate(Tags, 'a'))).toThrow()
+  })
+
+  it('supports error codes and localised messages', () => {
+    const User = Struct({
+      age: Min(Int, 0),
+      role: Union(Literal('admin'), Literal('user')),
+    })
+
+    const result = Validator.validate(User, { age: -1, role: 'guest' }, { abortEarly: false })
+
+    expect(result.isErr && getValidationErrors(result.value)).toEqual([
+      {
+        path: ['age'],
+        message: '-1 is less than the minimum 0',
+        code: 'constraint',
+        params: { constraint: 'min', expected: 0, received: -1 },
+      },
+      {
+        path: ['role'],
+        message: 'Matched unions failed: \nguest is not a literal admin\n&\nguest is not a literal user',
+        code: 'invalid_union',
+        params: { received: 'guest', reasons: ['guest is not a literal admin', 'guest is not a literal user'] },
+      },
+    ])
+
+    ValidationLocale.register('zh', {
+      invalid_type: ({ expected, received }) => `${received} 不是 ${expected}`,
+    })
+
+    const zhResult = Validator.validate(User, { age: 'a', role: 'guest' }, { locale: 'zh', abortEarly: false })
+
+    expect(zhResult.isErr && getValidationErrors(zhResult.value).map((error) => error.message)).toEqual([
+      'a 不是 integer',
+      // missing messages fall back to English
+      'Matched unions failed: \nguest is not a literal admin\n&\nguest is not a literal user',
+    ])
+
+    const customResult = Validator.validate(
+      User,
+      { age: 'a', role: 'admin' },
+      {
+        locale: 'zh',
+        formatMessage: (code, params) => (code === 'invalid_type' ? `expected ${params.expected}` : undefined),
+      },
+    )
+
+    expect(customResult.isErr && customResult.value.message).toBe('expected integer')
+
+    const unknownLocaleResult = Validator.validate(Int, 'a', { locale: 'fr' })
+
+    expect(unknownLocaleResult.isErr && unknownLocaleResult.value.message).toBe('a is not an integer')
+  })
 })
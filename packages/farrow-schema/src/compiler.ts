@@ -0,0 +1,549 @@
+import * as S from './schema'
+import { SchemaCtor, TypeOf, getInstance } from './schema'
+
+import { getSchemaCtorFields, PartialType, SchemaCtorFields } from './helper'
+import { Ok, Err } from './result'
+import { freeze, deepFreeze } from './utils'
+import {
+  Validator,
+  ValidatorImpl,
+  ValidatorOptions,
+  ValidationResult,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  SchemaErr,
+  SchemaCodeErr,
+  SchemaErrors,
+  getValidationErrors,
+  getValidatorImplOrigin,
+  prependPath,
+  getConstraintError,
+  getUnknownKeyError,
+} from './validator'
+
+type CompileContext = {
+  options: ValidatorOptions
+  /**
+   * get the name of compiled function for Ctor
+   */
+  compile: (Ctor: SchemaCtor, options?: ValidatorOptions) => string
+  /**
+   * get the expression refers to a value which can not be inlined
+   */
+  constant: (value: unknown) => string
+  /**
+   * get the code which validates input by Validator.validate
+   */
+  fallback: () => string
+}
+
+// every function body receives `input` and returns a ValidationResult
+type BodyCompiler<T extends S.Schema = any> = (schema: T, ctx: CompileContext) => string
+
+const isNonStrict = (ctx: CompileContext) => ctx.options.strict === false
+
+const isAbortEarly = (ctx: CompileContext) => ctx.options.abortEarly !== false
+
+const getUnknownKeys = (ctx: CompileContext) => ctx.options.unknownKeys ?? 'strip'
+
+/**
+ * code of creating the error of built-in validators, params is the source of an object literal
+ */
+const codeErr = (code: ValidationErrorCode, params: string) => `SchemaCodeErr(${JSON.stringify(code)}, { ${params} })`
+
+const invalidType = (expected: string) =>
+  codeErr('invalid_type', `expected: ${JSON.stringify(expected)}, received: input`)
+
+const parseNumberLiteral = (getResult: (value: string) => string, condition = '') => `
+if (typeof input === 'string') {
+  const value = parseFloat(input)
+  if (typeof value === 'number' && !isNaN(value)${condition}) return ${getResult('value')}
+}`
+
+const parseJsonLiteral = `
+if (typeof input === 'string') {
+  try {
+    input = JSON.parse(input)
+  } catch (e) {
+    // ignore
+  }
+}`
+
+/**
+ * code of collecting the error of `result` at key, or returning it when abortEarly
+ */
+const handleError = (ctx: CompileContext, key: string) => {
+  if (isAbortEarly(ctx)) {
+    return `return Err(prependPath(result.value, [${key}]))`
+  }
+  return `errors.push(...getValidationErrors(prependPath(result.value, [${key}])))`
+}
+
+const returnErrors = (ctx: CompileContext) => {
+  return isAbortEarly(ctx) ? '' : 'if (errors.length) return SchemaErrors(errors)'
+}
+
+const declareErrors = (ctx: CompileContext) => {
+  return isAbortEarly(ctx) ? '' : 'const errors = []'
+}
+
+const compileString: BodyCompiler = () => `
+if (typeof input === 'string') return Ok(input)
+return ${invalidType('string')}`
+
+const compileNumber: BodyCompiler = (_, ctx) => `
+if (typeof input === 'number' && !isNaN(input)) return Ok(input)
+${isNonStrict(ctx) ? parseNumberLiteral((value) => `Ok(${value})`) : ''}
+return ${invalidType('number')}`
+
+const compileInt: BodyCompiler = (_, ctx) => `
+if (typeof input === 'number' && Number.isInteger(input)) return Ok(input)
+${isNonStrict(ctx) ? `if (typeof input === 'number' && !isNaN(input)) return Ok(Math.floor(input))` : ''}
+${isNonStrict(ctx) ? parseNumberLiteral((value) => `Ok(Math.floor(${value}))`) : ''}
+return ${invalidType('integer')}`
+
+const compileID: BodyCompiler = () => `
+if (typeof input === 'string') {
+  if (input === '') return ${codeErr('empty_id', 'received: input')}
+  return Ok(input)
+}
+return ${invalidType('ID')}`
+
+const compileBoolean: BodyCompiler = (_, ctx) => `
+if (typeof input === 'boolean') return Ok(input)
+${isNonStrict(ctx) ? `if (input === 'false') return Ok(false)\nif (input === 'true') return Ok(true)` : ''}
+return ${invalidType('boolean')}`
+
+const compileDate: BodyCompiler = () => `
+if (input instanceof Date) return Ok(input)
+if (typeof input === 'number') return Ok(new Date(input))
+if (typeof input === 'string') {
+  const timestamp = Date.parse(input)
+  if (Number.isNaN(timestamp)) return ${codeErr('invalid_date', 'received: input')}
+  return Ok(new Date(timestamp))
+}
+return ${codeErr('invalid_date', 'received: input')}`
+
+const compileLiteral: BodyCompiler<S.LiteralType> = (schema, ctx) => {
+  const { value } = schema
+  const literal = ctx.constant(value)
+  let parseLiteral = ''
+
+  if (isNonStrict(ctx)) {
+    if (typeof value === 'number') {
+      parseLiteral = parseNumberLiteral((value) => `Ok(${value})`, ` && value === ${literal}`)
+    } else if (typeof value === 'boolean') {
+      parseLiteral = `if (input === ${JSON.stringify(`${value}`)}) return Ok(${literal})`
+    }
+  }
+
+  return `
+if (input === ${literal}) return Ok(input)
+${parseLiteral}
+return ${codeErr('invalid_literal', `expected: ${literal}, received: input`)}`
+}
+
+const compileEnum: BodyCompiler<S.EnumType> = (schema, ctx) => {
+  const values = ctx.constant(new Set<unknown>(schema.values))
+
+  return `
+if (${values}.has(input)) return Ok(input)
+${isNonStrict(ctx) ? parseNumberLiteral((value) => `Ok(${value})`, ` && ${values}.has(value)`) : ''}
+return ${codeErr('invalid_enum', `expected: ${JSON.stringify(schema.name)}, received: input`)}`
+}
+
+const compileNullable: BodyCompiler<S.NullableType> = (schema, ctx) => `
+if (input === null || input === undefined) return Ok(input)
+return ${ctx.compile(schema.Item)}(input)`
+
+const compileLazy: BodyCompiler<S.LazyType> = (schema, ctx) => `
+return ${ctx.compile(schema.getItem())}(input)`
+
+const compileTransform: BodyCompiler<S.TransformType> = (schema, ctx) => `
+const result = ${ctx.compile(schema.Item)}(input)
+if (result.isErr) return result
+try {
+  return Ok(${ctx.constant(schema.transformer)}.decode(result.value))
+} catch (error) {
+  return SchemaErr(error instanceof Error ? error.message : \`\${error}\`)
+}`
+
+const compileList: BodyCompiler<S.ListType> = (schema, ctx) => `
+if (!Array.isArray(input)) return ${invalidType('list')}
+const results = []
+${declareErrors(ctx)}
+for (let i = 0; i < input.length; i++) {
+  const result = ${ctx.compile(schema.Item)}(input[i])
+  if (result.isErr) {
+    ${handleError(ctx, 'i')}
+    continue
+  }
+  results.push(result.value)
+}
+${returnErrors(ctx)}
+return Ok(results)`
+
+const compileFields = (fields: SchemaCtorFields, ctx: CompileContext) => {
+  return Object.keys(fields)
+    .map((key) => {
+      const Field = fields[key]
+      const name = JSON.stringify(key)
+      const applyDefault =
+        Field.default !== undefined ? `if (value === undefined) value = getFieldDefault(${ctx.constant(Field)})` : ''
+
+      return `
+value = input[${name}]
+${applyDefault}
+result = ${ctx.compile(Field[S.Type])}(value)
+if (result.isErr) {
+  ${handleError(ctx, name)}
+} else {
+  results[${name}] = result.value
+}`
+    })
+    .join('\n')
+}
+
+const compileUnknownKeys = (fields: SchemaCtorFields, ctx: CompileContext) => {
+  const unknownKeys = getUnknownKeys(ctx)
+
+  if (unknownKeys === 'strip') return ''
+
+  const handleUnknownKey =
+    unknownKeys === 'passthrough'
+      ? 'results[key] = input[key]'
+      : isAbortEarly(ctx)
+      ? 'return Err(getUnknownKeyError(key))'
+      : 'errors.push(getUnknownKeyError(key))'
+
+  return `
+for (const key of Object.keys(input)) {
+  if (Object.prototype.hasOwnProperty.call(${ctx.constant(fields)}, key)) continue
+  ${handleUnknownKey}
+}`
+}
+
+const compileStruct: BodyCompiler<S.StructType> = (schema, ctx) => {
+  const fields = getSchemaCtorFields(schema.descriptors)
+  return `
+${isNonStrict(ctx) ? parseJsonLiteral : ''}
+if (typeof input !== 'object' || !input) return ${invalidType('object')}
+const results = {}
+${declareErrors(ctx)}
+let value
+let result
+${compileFields(fields, ctx)}
+${compileUnknownKeys(fields, ctx)}
+${returnErrors(ctx)}
+return Ok(results)`
+}
+
+const compileObject: BodyCompiler<S.ObjectType> = (schema, ctx) => {
+  const fields = getSchemaCtorFields(schema as unknown as S.FieldDescriptors)
+  return `
+return ${ctx.compile(S.Struct(fields))}(input)`
+}
+
+const compileRecord: BodyCompiler<S.RecordType> = (schema, ctx) => {
+  // object keys are always strings, so keys are validated non-strictly
+  const validateKey = S.isStringKey(schema.Key)
+    ? ''
+    : `
+  result = ${ctx.compile(schema.Key, { ...ctx.options, strict: false })}(key)
+  if (result.isErr) {
+    ${handleError(ctx, 'key')}
+    continue
+  }`
+
+  return `
+if (typeof input !== 'object' || !input) return ${invalidType('object')}
+const results = {}
+${declareErrors(ctx)}
+let result
+for (const [key, value] of Object.entries(input)) {${validateKey}
+  result = ${ctx.compile(schema.Item)}(value)
+  if (result.isErr) {
+    ${handleError(ctx, 'key')}
+    continue
+  }
+  results[key] = result.value
+}
+${returnErrors(ctx)}
+return Ok(results)`
+}
+
+const compileUnion: BodyCompiler<S.UnionType> = (schema, ctx) => {
+  const items = schema.Items.filter((Item) => Item !== S.Never).map(
+    (Item) => `
+result = ${ctx.compile(Item)}(input)
+if (result.isOk) return result
+messages.push(result.value.message)`,
+  )
+
+  return `
+const messages = []
+let result
+${items.join('\n')}
+return ${codeErr('invalid_union', 'received: input, reasons: messages')}`
+}
+
+const compileTaggedUnion: BodyCompiler<S.TaggedUnionType> = (schema, ctx) => {
+  // items may receive input without the tag
+  if (getUnknownKeys(ctx) === 'reject') return ctx.fallback()
+
+  const tag = JSON.stringify(schema.tag)
+  const cases = Object.keys(schema.Items).map(
+    (tagValue) => `
+  case ${JSON.stringify(tagValue)}:
+    result = ${ctx.compile(schema.Items[tagValue])}(input)
+    break`,
+  )
+
+  return `
+${isNonStrict(ctx) ? parseJsonLiteral : ''}
+if (typeof input !== 'object' || !input) return ${invalidType('object')}
+const tagValue = input[${tag}]
+let result
+switch (tagValue) {
+${cases.join('\n')}
+  default:
+    return SchemaCodeErr('invalid_tag', { expected: ${ctx.constant(
+      Object.keys(schema.Items),
+    )}, received: tagValue }, [${tag}])
+}
+if (result.isErr) return result
+return Ok(Object.assign({ [${tag}]: tagValue }, result.value))`
+}
+
+const compileIntersect: BodyCompiler<S.IntersectType> = (schema, ctx) => {
+  // items receive the keys they declare only
+  if (getUnknownKeys(ctx) !== 'strip') return ctx.fallback()
+
+  const items = schema.Items.map((Item) => {
+    const handleItemError = isAbortEarly(ctx) ? 'return result' : 'errors.push(...getValidationErrors(result.value))'
+
+    return `
+result = ${ctx.compile(Item)}(input)
+if (result.isErr) {
+  ${handleItemError}
+} else {
+  Object.assign(results, result.value)
+}`
+  })
+
+  return `
+const results = {}
+${declareErrors(ctx)}
+let result
+${items.join('\n')}
+${returnErrors(ctx)}
+return Ok(results)`
+}
+
+const compileAny: BodyCompiler = () => `
+return Ok(input)`
+
+const compileNever: BodyCompiler = () => `
+throw new Error(\`Should not validate here, got \${input}\`)`
+
+const compileStrict: BodyCompiler<S.StrictType> = (schema, ctx) => `
+return ${ctx.compile(schema.Item, { ...ctx.options, strict: true })}(input)`
+
+const compileNonStrict: BodyCompiler<S.NonStrictType> = (schema, ctx) => `
+return ${ctx.compile(schema.Item, { ...ctx.options, strict: false })}(input)`
+
+const compileUnknownKeysType: BodyCompiler<S.UnknownKeysType> = (schema, ctx) => `
+return ${ctx.compile(schema.Item, { ...ctx.options, unknownKeys: schema.unknownKeys })}(input)`
+
+const compileItem: BodyCompiler<S.ReadOnlyType | S.ReadOnlyDeepType | PartialType> = (schema, ctx) => `
+return ${ctx.compile(schema.Item)}(input)`
+
+const compileFreeze =
+  (freezeValue: <T>(value: T) => T): BodyCompiler<S.ReadOnlyType | S.ReadOnlyDeepType> =>
+  (schema, ctx) => {
+    if (!ctx.options.freeze) {
+      return compileItem(schema, ctx)
+    }
+
+    return `
+const result = ${ctx.compile(schema.Item)}(input)
+if (result.isErr) return result
+return Ok(${ctx.constant(freezeValue)}(result.value))`
+  }
+
+const compileConstrained: BodyCompiler<S.ConstrainedType> = (schema, ctx) => `
+const result = ${ctx.compile(schema.Item)}(input)
+if (result.isErr) return result
+const error = getConstraintError(result.value, ${ctx.constant(schema.constraints)})
+if (error) return Err(error)
+return result`
+
+const compileBrand: BodyCompiler<S.BrandType> = (schema, ctx) => {
+  if (!schema.refine) {
+    return `
+return ${ctx.compile(schema.Item)}(input)`
+  }
+
+  return `
+const result = ${ctx.compile(schema.Item)}(input)
+if (result.isErr || ${ctx.constant(schema.refine)}(result.value)) return result
+return ${codeErr('invalid_brand', `expected: ${JSON.stringify(schema.brand)}, received: input`)}`
+}
+
+const compileTuple: BodyCompiler<S.TupleType> = (schema, ctx) => {
+  const items = schema.Items.map(
+    (Item, index) => `
+result = ${ctx.compile(Item)}(input[${index}])
+if (result.isErr) {
+  ${handleError(ctx, `${index}`)}
+} else {
+  tuple.push(result.value)
+}`,
+  )
+
+  return `
+if (!Array.isArray(input)) return ${invalidType('array')}
+const tuple = []
+${declareErrors(ctx)}
+let result
+${items.join('\n')}
+${returnErrors(ctx)}
+return Ok(tuple)`
+}
+
+const getOrigin = (Ctor: Function) => getValidatorImplOrigin(Ctor as SchemaCtor)
+
+/**
+ * the built-in impls which can be compiled, others fall back to Validator.validate
+ */
+const bodyCompilers = new Map<ValidatorImpl | undefined, BodyCompiler>([
+  [getOrigin(S.String), compileString],
+  [getOrigin(S.Number), compileNumber],
+  [getOrigin(S.Int), compileInt],
+  [getOrigin(S.Float), compileNumber],
+  [getOrigin(S.ID), compileID],
+  [getOrigin(S.Boolean), compileBoolean],
+  [getOrigin(S.Date), compileDate],
+  [getOrigin(S.LiteralType), compileLiteral],
+  [getOrigin(S.EnumType), compileEnum],
+  [getOrigin(S.NullableType), compileNullable],
+  [getOrigin(S.LazyType), compileLazy],
+  [getOrigin(S.TransformType), compileTransform],
+  [getOrigin(S.ListType), compileList],
+  [getOrigin(S.StructType), compileStruct],
+  [getOrigin(S.ObjectType), compileObject],
+  [getOrigin(S.RecordType), compileRecord],
+  [getOrigin(S.UnionType), compileUnion],
+  [getOrigin(S.TaggedUnionType), compileTaggedUnion],
+  [getOrigin(S.IntersectType), compileIntersect],
+  [getOrigin(S.Any), compileAny],
+  [getOrigin(S.Unknown), compileAny],
+  [getOrigin(S.Never), compileNever],
+  [getOrigin(S.StrictType), compileStrict],
+  [getOrigin(S.NonStrictType), compileNonStrict],
+  [getOrigin(S.UnknownKeysType), compileUnknownKeysType],
+  [getOrigin(S.ReadOnlyType), compileFreeze(freeze)],
+  [getOrigin(S.ReadOnlyDeepType), compileFreeze(deepFreeze)],
+  [getOrigin(PartialType), compileItem],
+  [getOrigin(S.ConstrainedType), compileConstrained],
+  [getOrigin(S.BrandType), compileBrand],
+  [getOrigin(S.TupleType), compileTuple],
+])
+
+/**
+ * generate a specialised function for SchemaCtor, it returns the same results as createSchemaValidator
+ */
+export const compileValidator = <T extends SchemaCtor>(SchemaCtor: T, options: ValidatorOptions = {}) => {
+  const functions: string[] = []
+  const constants: unknown[] = []
+  const names = new Map<SchemaCtor, Map<string, string>>()
+
+  const constant = (value: unknown) => {
+    constants.push(value)
+    return `constants[${constants.length - 1}]`
+  }
+
+  const compile = (Ctor: SchemaCtor, options: ValidatorOptions): string => {
+    const namesOfCtor = names.get(Ctor) ?? new Map<string, string>()
+    // the generated code only depends on these options
+    const key = `${options.strict}:${options.unknownKeys}`
+
+    names.set(Ctor, namesOfCtor)
+
+    if (namesOfCtor.has(key)) {
+      return namesOfCtor.get(key)!
+    }
+
+    const name = `validate${functions.length}`
+
+    namesOfCtor.set(key, name)
+    // reserve the slot before compiling the body for recursive schemas
+    functions.push('')
+
+    const index = functions.length - 1
+    const bodyCompiler = bodyCompilers.get(getValidatorImplOrigin(Ctor))
+
+    const fallback = () => {
+      const validate = (input: unknown) => Validator.validate(Ctor, input, options)
+      return `return ${constant(validate)}(input)`
+    }
+
+    let body: string
+
+    if (bodyCompiler) {
+      const ctx: CompileContext = {
+        options,
+        compile: (Item, itemOptions = options) => compile(Item, itemOptions),
+        constant,
+        fallback,
+      }
+      body = bodyCompiler(getInstance(Ctor), ctx)
+    } else {
+      body = fallback()
+    }
+
+    functions[index] = `function ${name}(input) {${body}\n}`
+
+    return name
+  }
+
+  const entry = compile(SchemaCtor, options)
+
+  const source = `'use strict'\n${functions.join('\n\n')}\n\nreturn ${entry}`
+
+  const createValidator = new Function(
+    'constants',
+    'Ok',
+    'Err',
+    'SchemaErr',
+    'SchemaCodeErr',
+    'SchemaErrors',
+    'getValidationErrors',
+    'prependPath',
+    'getConstraintError',
+    'getFieldDefault',
+    'getUnknownKeyError',
+    source,
+  )
+
+  // the messages of errors only depend on the locale and formatMessage of options
+  const createCodeErr = (code: ValidationErrorCode, params: ValidationErrorParams, path?: (string | number)[]) => {
+    return SchemaCodeErr(code, params, options, path)
+  }
+
+  const validator: (input: unknown) => ValidationResult = createValidator(
+    constants,
+    Ok,
+    Err,
+    SchemaErr,
+    createCodeErr,
+    SchemaErrors,
+    getValidationErrors,
+    prependPath,
+    (input: unknown, constraints: S.Constraints) => getConstraintError(input, constraints, options),
+    S.getFieldDefault,
+    (key: string) => getUnknownKeyError(key, options),
+  )
+
+  return validator as (input: unknown) => ValidationResult<TypeOf<T>>
+}
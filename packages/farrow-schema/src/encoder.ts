@@ -0,0 +1,270 @@
+import * as S from './schema'
+import { SchemaCtor, TypeOf, Schema, SchemaTypeOf, getInstance } from './schema'
+
+import { getSchemaCtorFields, PartialType } from './helper'
+import { Validator } from './validator'
+import { encodeBase64 } from './utils'
+
+export type EncoderMethods<T extends Schema = Schema> = {
+  encode: (value: TypeOf<T>) => unknown
+}
+
+export type EncoderImpl<T extends Schema = Schema> = EncoderMethods<T> | ((schema: T) => EncoderMethods<T>)
+
+const encoderWeakMap = new WeakMap<Function, EncoderImpl>()
+
+const getEncoderImpl = (input: Function): EncoderImpl | undefined => {
+  if (typeof input !== 'function') {
+    return undefined
+  }
+
+  if (encoderWeakMap.has(input)) {
+    return encoderWeakMap.get(input)
+  }
+
+  const next = Object.getPrototypeOf(input)
+
+  if (next === Function.prototype) {
+    return undefined
+  }
+
+  return getEncoderImpl(next)
+}
+
+export const Encoder = {
+  impl<T extends Schema>(Ctor: abstract new () => T, impl: EncoderImpl<T>) {
+    encoderWeakMap.set(Ctor, impl as EncoderImpl)
+  },
+
+  get<T extends SchemaCtor>(Ctor: T): EncoderMethods<SchemaTypeOf<T>> | undefined {
+    const finalCtor = S.getSchemaCtor(Ctor)
+    const encoderImpl = getEncoderImpl(finalCtor as unknown as Function) as EncoderImpl<SchemaTypeOf<T>> | undefined
+
+    // instantiation encoder and save to weak-map
+    if (typeof encoderImpl === 'function') {
+      const schema = getInstance(Ctor) as SchemaTypeOf<T>
+      const impl = encoderImpl(schema)
+
+      encoderWeakMap.set(Ctor, impl)
+
+      return impl
+    }
+
+    return encoderImpl
+  },
+
+  /**
+   * convert runtime value to wire value, schemas without impl keep the value as it is
+   */
+  encode<T extends SchemaCtor>(Ctor: T, value: TypeOf<T>): unknown {
+    const encoderImpl = Encoder.get(Ctor)
+
+    if (!encoderImpl) {
+      return value
+    }
+
+    return encoderImpl.encode(value as any)
+  },
+}
+
+const isObject = (input: unknown): input is { [key: string]: unknown } => {
+  return typeof input === 'object' && input !== null
+}
+
+Encoder.impl(S.BigInt, {
+  encode: (value) => (typeof value === 'bigint' ? value.toString() : value),
+})
+
+Encoder.impl(S.Bytes, {
+  encode: (value) => (value instanceof Uint8Array ? encodeBase64(value) : value),
+})
+
+Encoder.impl(S.Url, {
+  encode: (value) => (value instanceof URL ? value.href : value),
+})
+
+Encoder.impl<S.TransformType>(S.TransformType, (schema) => ({
+  encode: (value) => {
+    return Encoder.encode(schema.Item, schema.transformer.encode(value))
+  },
+}))
+
+Encoder.impl<S.NullableType>(S.NullableType, (schema) => ({
+  encode: (value) => {
+    if (value === null || value === undefined) {
+      return value
+    }
+    return Encoder.encode(schema.Item, value)
+  },
+}))
+
+Encoder.impl<S.LazyType>(S.LazyType, (schema) => ({
+  encode: (value) => {
+    return Encoder.encode(schema.getItem(), value)
+  },
+}))
+
+Encoder.impl<S.ListType>(S.ListType, (schema) => ({
+  encode: (value) => {
+    if (!Array.isArray(value)) return value
+    return value.map((item) => Encoder.encode(schema.Item, item))
+  },
+}))
+
+Encoder.impl<S.SetType>(S.SetType, (schema) => ({
+  encode: (value) => {
+    if (!(value instanceof Set)) return value
+    return Array.from(value, (item) => Encoder.encode(schema.Item, item))
+  },
+}))
+
+Encoder.impl<S.MapType>(S.MapType, (schema) => ({
+  encode: (value) => {
+    if (!(value instanceof Map)) return value
+    return Array.from(value, ([key, item]) => [Encoder.encode(schema.Key, key), Encoder.encode(schema.Item, item)])
+  },
+}))
+
+Encoder.impl<S.TupleType>(S.TupleType, (schema) => ({
+  encode: (value) => {
+    if (!Array.isArray(value)) return value
+    return value.map((item, index) => Encoder.encode(schema.Items[index], item))
+  },
+}))
+
+Encoder.impl<S.StructType>(S.StructType, (schema) => {
+  const fields = getSchemaCtorFields(schema.descriptors)
+
+  return {
+    encode: (value) => {
+      if (!isObject(value)) return value
+
+      // only the declared fields are encoded, like the validator strips unknown keys by default
+      const result: { [key: string]: unknown } = {}
+
+      for (const key in fields) {
+        if (value[key] === undefined) continue
+        result[key] = Encoder.encode(fields[key][S.Type], value[key])
+      }
+
+      return result
+    },
+  }
+})
+
+Encoder.impl(S.ObjectType, (schema) => {
+  const fields = getSchemaCtorFields(schema as unknown as S.FieldDescriptors)
+  const Struct = S.Struct(fields)
+
+  return {
+    encode: (value) => {
+      return Encoder.encode(Struct, value)
+    },
+  }
+})
+
+Encoder.impl<S.RecordType>(S.RecordType, (schema) => ({
+  encode: (value) => {
+    if (!isObject(value)) return value
+
+    const result: { [key: string]: unknown } = {}
+
+    for (const key in value) {
+      result[key] = Encoder.encode(schema.Item, value[key])
+    }
+
+    return result
+  },
+}))
+
+Encoder.impl<S.UnionType>(S.UnionType, (schema) => ({
+  encode: (value) => {
+    // pick the first item accepting the runtime value
+    const Item = schema.Items.find((Item) => Validator.validate(Item, value).isOk)
+
+    if (Item) {
+      return Encoder.encode(Item, value)
+    }
+
+    // the runtime value of Transform is only accepted by its wire value
+    for (const Item of schema.Items) {
+      try {
+        const encoded = Encoder.encode(Item, value)
+        if (Validator.validate(Item, encoded).isOk) {
+          return encoded
+        }
+      } catch (error) {
+        // try next item
+      }
+    }
+
+    return value
+  },
+}))
+
+Encoder.impl<S.TaggedUnionType>(S.TaggedUnionType, (schema) => ({
+  encode: (value) => {
+    if (!isObject(value)) return value
+
+    const tagValue = value[schema.tag]
+
+    if (typeof tagValue !== 'string' || !Object.prototype.hasOwnProperty.call(schema.Items, tagValue)) {
+      return value
+    }
+
+    return {
+      ...(Encoder.encode(schema.Items[tagValue], value) as object),
+      [schema.tag]: tagValue,
+    }
+  },
+}))
+
+Encoder.impl<S.IntersectType>(S.IntersectType, (schema) => ({
+  encode: (value) => {
+    if (!isObject(value)) return value
+    return Object.assign({}, ...schema.Items.map((Item) => Encoder.encode(Item, value)))
+  },
+}))
+
+Encoder.impl<S.StrictType>(S.StrictType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<S.NonStrictType>(S.NonStrictType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<S.UnknownKeysType>(S.UnknownKeysType, (schema) => ({
+  encode: (value) => {
+    const encoded = Encoder.encode(schema.Item, value)
+
+    // keep the unknown keys which are passed through by validator
+    if (schema.unknownKeys === 'passthrough' && isObject(value) && isObject(encoded)) {
+      return { ...value, ...encoded }
+    }
+
+    return encoded
+  },
+}))
+
+Encoder.impl<S.ReadOnlyType>(S.ReadOnlyType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<S.ReadOnlyDeepType>(S.ReadOnlyDeepType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<S.ConstrainedType>(S.ConstrainedType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<S.BrandType>(S.BrandType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+Encoder.impl<PartialType>(PartialType, (schema) => ({
+  encode: (value) => Encoder.encode(schema.Item, value),
+}))
+
+export const encode = Encoder.encode
@@ -1,5 +1,5 @@
 import * as S from './schema'
-import { SchemaCtor, Schema, SchemaTypeOf, getInstance, Literals } from './schema'
+import { SchemaCtor, Schema, SchemaTypeOf, getInstance, Literals, Constraints } from './schema'
 import { getSchemaCtorFields, PartialType } from './helper'
 
 export type FormatField = {
@@ -7,6 +7,10 @@ export type FormatField = {
   $ref: string
   description?: string
   deprecated?: string
+  /**
+   * default value of field, thunk is not exported since its value may vary by calling
+   */
+  default?: S.JsonType
 }
 
 export type FormatFields = {
@@ -29,6 +33,10 @@ export type FormatScalarType = {
   type: 'Scalar'
   valueType: string
   valueName: string
+  /**
+   * the name of brand when it was created by Brand
+   */
+  brand?: string
 }
 
 export type FormatLiteralType = {
@@ -38,6 +46,8 @@ export type FormatLiteralType = {
 
 export type FormatRecordType = {
   type: 'Record'
+  // absent when keys are plain strings
+  keyTypeId?: number
   valueTypeId: number
   $ref: string
 }
@@ -48,6 +58,22 @@ export type FormatListType = {
   $ref: string
 }
 
+export type FormatSetType = {
+  type: 'Set'
+  itemTypeId: number
+  $ref: string
+}
+
+export type FormatMapType = {
+  type: 'Map'
+  keyTypeId: number
+  valueTypeId: number
+  /**
+   * refer to the type of value, like Record
+   */
+  $ref: string
+}
+
 export type FormatNullableType = {
   type: 'Nullable'
   itemTypeId: number
@@ -60,6 +86,13 @@ export type FormatUnionType = {
   itemTypes: { typeId: number; $ref: string }[]
 }
 
+export type FormatTaggedUnionType = {
+  type: 'TaggedUnion'
+  name?: string
+  tag: string
+  itemTypes: { value: string; typeId: number; $ref: string }[]
+}
+
 export type FormatIntersectType = {
   type: 'Intersect'
   name?: string
@@ -84,6 +117,20 @@ export type FormatNonStrictType = {
   $ref: string
 }
 
+export type FormatEnumType = {
+  type: 'Enum'
+  name: string
+  values: S.EnumValue[]
+  members?: { [name: string]: S.EnumValue }
+}
+
+export type FormatUnknownKeysType = {
+  type: 'UnknownKeys'
+  unknownKeys: S.UnknownKeys
+  itemTypeId: number
+  $ref: string
+}
+
 export type FormatReadOnlyType = {
   type: 'ReadOnly'
   itemTypeId: number
@@ -96,6 +143,20 @@ export type FormatReadonlyDeepType = {
   $ref: string
 }
 
+export type FormatConstrainedType = {
+  type: 'Constrained'
+  itemTypeId: number
+  $ref: string
+  constraints: Constraints
+}
+
+export type FormatLazyType = {
+  type: 'Lazy'
+  name?: string
+  itemTypeId: number
+  $ref: string
+}
+
 export type FormatType =
   | FormatScalarType
   | FormatObjectType
@@ -103,14 +164,21 @@ export type FormatType =
   | FormatStructType
   | FormatRecordType
   | FormatListType
+  | FormatSetType
+  | FormatMapType
   | FormatLiteralType
   | FormatNullableType
   | FormatIntersectType
   | FormatTupleType
   | FormatStrictType
   | FormatNonStrictType
+  | FormatUnknownKeysType
   | FormatReadOnlyType
   | FormatReadonlyDeepType
+  | FormatConstrainedType
+  | FormatLazyType
+  | FormatTaggedUnionType
+  | FormatEnumType
 
 export type FormatTypes = {
   [key: string]: FormatType
@@ -133,6 +201,9 @@ export type NamedFormatType =
   | FormatUnionType
   | FormatIntersectType
   | FormatObjectType
+  | FormatLazyType
+  | FormatTaggedUnionType
+  | FormatEnumType
 
 export const isNamedFormatType = (input: FormatType): input is NamedFormatType => {
   return (
@@ -140,10 +211,20 @@ export const isNamedFormatType = (input: FormatType): input is NamedFormatType =
     input.type === 'Struct' ||
     input.type === 'Union' ||
     input.type === 'Intersect' ||
-    input.type === 'Tuple'
+    input.type === 'Tuple' ||
+    input.type === 'Lazy' ||
+    input.type === 'TaggedUnion' ||
+    input.type === 'Enum'
   )
 }
 
+const getFormatDefault = (Field: S.FieldInfo): S.JsonType | undefined => {
+  if (typeof Field.default === 'function') {
+    return undefined
+  }
+  return Field.default as S.JsonType | undefined
+}
+
 const formatterWeakMap = new WeakMap<Function, FormatterImpl>()
 
 const getFormatterImpl = (input: Function): FormatterImpl | undefined => {
@@ -208,10 +289,10 @@ export const Formatter = {
     const types: FormatTypes = {}
     let uid = 0
 
-    const lazyTypeList = [] as (FormatStructType | FormatObjectType)[]
+    const lazyTypeList = [] as (FormatStructType | FormatObjectType | FormatLazyType)[]
 
     const addType = (type: FormatType): number => {
-      if (type.type === 'Object' || type.type === 'Struct') {
+      if (type.type === 'Object' || type.type === 'Struct' || type.type === 'Lazy') {
         lazyTypeList.push(type)
       }
 
@@ -234,8 +315,12 @@ export const Formatter = {
 
     // trigger all lazy fields to expand formatResult.types
     while (lazyTypeList.length) {
-      const objectType = lazyTypeList.shift()
-      objectType?.fields
+      const lazyType = lazyTypeList.shift()
+      if (lazyType?.type === 'Lazy') {
+        lazyType.itemTypeId
+      } else {
+        lazyType?.fields
+      }
     }
 
     return {
@@ -317,6 +402,37 @@ Formatter.impl(S.Date, {
   },
 })
 
+// the value types of scalars below are their wire types
+Formatter.impl(S.BigInt, {
+  format(ctx) {
+    return ctx.addType({
+      type: 'Scalar',
+      valueType: 'string',
+      valueName: 'BigInt',
+    })
+  },
+})
+
+Formatter.impl(S.Bytes, {
+  format(ctx) {
+    return ctx.addType({
+      type: 'Scalar',
+      valueType: 'string',
+      valueName: 'Bytes',
+    })
+  },
+})
+
+Formatter.impl(S.Url, {
+  format(ctx) {
+    return ctx.addType({
+      type: 'Scalar',
+      valueType: 'string',
+      valueName: 'Url',
+    })
+  },
+})
+
 Formatter.impl(S.LiteralType, (schema) => {
   return {
     format(ctx) {
@@ -328,6 +444,19 @@ Formatter.impl(S.LiteralType, (schema) => {
   }
 })
 
+Formatter.impl(S.EnumType, (schema) => {
+  return {
+    format(ctx) {
+      return ctx.addType({
+        type: 'Enum',
+        name: schema.name,
+        values: schema.values,
+        members: schema.members,
+      })
+    },
+  }
+})
+
 Formatter.impl(S.NullableType, (schema) => {
   return {
     format(ctx) {
@@ -341,6 +470,33 @@ Formatter.impl(S.NullableType, (schema) => {
   }
 })
 
+Formatter.impl(S.LazyType, (schema) => {
+  const Constructor = schema.constructor as typeof S.Schema
+  return {
+    format(ctx) {
+      let itemTypeId: number | undefined
+      // the item may refer back to this type, so it is formatted on demand to avoid infinite recursion
+      const getItemTypeId = () => {
+        if (itemTypeId === undefined) {
+          itemTypeId = Formatter.formatSchema(schema.getItem(), ctx)
+        }
+        return itemTypeId
+      }
+
+      return ctx.addType({
+        type: 'Lazy',
+        name: Constructor.displayName,
+        get itemTypeId() {
+          return getItemTypeId()
+        },
+        get $ref() {
+          return `#/types/${getItemTypeId()}`
+        },
+      })
+    },
+  }
+})
+
 Formatter.impl(S.ListType, (schema) => {
   return {
     format(ctx) {
@@ -371,6 +527,7 @@ Formatter.impl(S.StructType, (schema) => {
             $ref: `#/types/${typeId}`,
             description: Field.description,
             deprecated: Field.deprecated,
+            default: getFormatDefault(Field),
           }
         }
 
@@ -406,6 +563,7 @@ Formatter.impl(S.ObjectType, (schema) => {
             $ref: `#/types/${typeId}`,
             description: Field.description,
             deprecated: Field.deprecated,
+            default: getFormatDefault(Field),
           }
         }
 
@@ -445,6 +603,29 @@ Formatter.impl(S.UnionType, (schema) => {
   }
 })
 
+Formatter.impl(S.TaggedUnionType, (schema) => {
+  const Constructor = schema.constructor as typeof S.Schema
+  const displayName = Constructor.displayName
+  return {
+    format(ctx) {
+      const itemTypes = Object.entries(schema.Items).map(([value, Item]) => {
+        const typeId = Formatter.formatSchema(Item, ctx)
+        return {
+          value,
+          typeId,
+          $ref: `#/types/${typeId}`,
+        }
+      })
+      return ctx.addType({
+        type: 'TaggedUnion',
+        name: displayName,
+        tag: schema.tag,
+        itemTypes,
+      })
+    },
+  }
+})
+
 Formatter.impl(S.IntersectType, (schema) => {
   const Constructor = schema.constructor as typeof S.Schema
   const displayName = Constructor.displayName
@@ -490,16 +671,55 @@ Formatter.impl(S.TupleType, (schema) => {
 Formatter.impl(S.RecordType, (schema) => {
   return {
     format(ctx) {
-      const typeId = Formatter.formatSchema(schema.Item, ctx)
+      if (S.isStringKey(schema.Key)) {
+        const typeId = Formatter.formatSchema(schema.Item, ctx)
+        return ctx.addType({
+          type: 'Record',
+          valueTypeId: typeId,
+          $ref: `#/types/${typeId}`,
+        })
+      }
+
+      const keyTypeId = Formatter.formatSchema(schema.Key, ctx)
+      const valueTypeId = Formatter.formatSchema(schema.Item, ctx)
       return ctx.addType({
         type: 'Record',
-        valueTypeId: typeId,
+        keyTypeId,
+        valueTypeId,
+        $ref: `#/types/${valueTypeId}`,
+      })
+    },
+  }
+})
+
+Formatter.impl(S.SetType, (schema) => {
+  return {
+    format(ctx) {
+      const typeId = Formatter.formatSchema(schema.Item, ctx)
+      return ctx.addType({
+        type: 'Set',
+        itemTypeId: typeId,
         $ref: `#/types/${typeId}`,
       })
     },
   }
 })
 
+Formatter.impl(S.MapType, (schema) => {
+  return {
+    format(ctx) {
+      const keyTypeId = Formatter.formatSchema(schema.Key, ctx)
+      const valueTypeId = Formatter.formatSchema(schema.Item, ctx)
+      return ctx.addType({
+        type: 'Map',
+        keyTypeId,
+        valueTypeId,
+        $ref: `#/types/${valueTypeId}`,
+      })
+    },
+  }
+})
+
 Formatter.impl(S.Unknown, {
   format(ctx) {
     return ctx.addType({
@@ -540,6 +760,15 @@ Formatter.impl(S.Json, {
   },
 })
 
+// the wire schema is what the other side of the wire sees
+Formatter.impl(S.TransformType, (schema) => {
+  return {
+    format(ctx) {
+      return Formatter.formatSchema(schema.Item, ctx)
+    },
+  }
+})
+
 Formatter.impl(S.StrictType, (schema) => {
   return {
     format(ctx) {
@@ -566,6 +795,20 @@ Formatter.impl(S.NonStrictType, (schema) => {
   }
 })
 
+Formatter.impl(S.UnknownKeysType, (schema) => {
+  return {
+    format(ctx) {
+      const typeId = Formatter.formatSchema(schema.Item, ctx)
+      return ctx.addType({
+        type: 'UnknownKeys',
+        unknownKeys: schema.unknownKeys,
+        itemTypeId: typeId,
+        $ref: `#/types/${typeId}`,
+      })
+    },
+  }
+})
+
 Formatter.impl(S.ReadOnlyType, (schema) => {
   return {
     format(ctx) {
@@ -592,6 +835,52 @@ Formatter.impl(S.ReadOnlyDeepType, (schema) => {
   }
 })
 
+Formatter.impl(S.ConstrainedType, (schema) => {
+  return {
+    format(ctx) {
+      const typeId = Formatter.formatSchema(schema.Item, ctx)
+      return ctx.addType({
+        type: 'Constrained',
+        itemTypeId: typeId,
+        $ref: `#/types/${typeId}`,
+        constraints: schema.constraints,
+      })
+    },
+  }
+})
+
+Formatter.impl(S.BrandType, (schema) => {
+  const constrained = S.isConstrainedType(schema.Item) ? getInstance(schema.Item) : undefined
+
+  return {
+    format(ctx) {
+      // brand is kept in the scalar type, constraints of Item wrap the branded scalar type
+      const { typeId, types } = Formatter.format(constrained ? constrained.Item : schema.Item)
+      const itemType = types[typeId]
+
+      if (itemType.type !== 'Scalar') {
+        throw new Error(`Brand ${schema.brand} should be based on a scalar schema, but got ${itemType.type}`)
+      }
+
+      const brandTypeId = ctx.addType({
+        ...itemType,
+        brand: schema.brand,
+      })
+
+      if (!constrained) {
+        return brandTypeId
+      }
+
+      return ctx.addType({
+        type: 'Constrained',
+        itemTypeId: brandTypeId,
+        $ref: `#/types/${brandTypeId}`,
+        constraints: constrained.constraints,
+      })
+    },
+  }
+})
+
 Formatter.impl(PartialType, schema => {
   const Constructor = schema.constructor as typeof S.Schema
   const ItemConstructor = schema.Item as unknown as typeof S.Schema
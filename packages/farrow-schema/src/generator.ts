@@ -0,0 +1,525 @@
+import * as S from './schema'
+import { SchemaCtor, InputTypeOf, Schema, SchemaTypeOf, getInstance } from './schema'
+
+import { getSchemaCtorFields, PartialType } from './helper'
+import { checkConstraints } from './validator'
+
+export type GeneratorOptions = {
+  /**
+   * the same seed always generates the same value
+   * default: a random seed
+   */
+  seed?: number
+  /**
+   * the depth of nested objects and lists, lists/records are empty and nullables are null beyond it
+   * default: 3
+   */
+  maxDepth?: number
+}
+
+export type GeneratorContext = {
+  /**
+   * get a pseudo-random number in [0, 1)
+   */
+  random: () => number
+  /**
+   * get a pseudo-random integer in [min, max]
+   */
+  integer: (min: number, max: number) => number
+  pick: <T>(list: T[]) => T
+  depth: number
+  isMaxDepth: boolean
+  /**
+   * the constraints of Constrained which the value should satisfy
+   */
+  constraints: S.Constraints
+  /**
+   * generate value at the current depth, used by the schemas wrapping their item
+   */
+  generate: <T extends SchemaCtor>(Ctor: T, constraints?: S.Constraints) => InputTypeOf<T>
+  /**
+   * generate value nested in the current one, like the fields of object or the items of list
+   */
+  generateChild: <T extends SchemaCtor>(Ctor: T) => InputTypeOf<T>
+}
+
+export type GeneratorMethods<T extends Schema = Schema> = {
+  generate: (ctx: GeneratorContext) => InputTypeOf<T>
+}
+
+export type GeneratorImpl<T extends Schema = Schema> = GeneratorMethods<T> | ((schema: T) => GeneratorMethods<T>)
+
+const generatorWeakMap = new WeakMap<Function, GeneratorImpl>()
+
+const getGeneratorImpl = (input: Function): GeneratorImpl | undefined => {
+  if (typeof input !== 'function') {
+    return undefined
+  }
+
+  if (generatorWeakMap.has(input)) {
+    return generatorWeakMap.get(input)
+  }
+
+  const next = Object.getPrototypeOf(input)
+
+  if (next === Function.prototype) {
+    return undefined
+  }
+
+  return getGeneratorImpl(next)
+}
+
+// recursive schemas without finite values, like { next: Self }, would never stop
+const extraDepth = 20
+
+/**
+ * mulberry32
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const generateWith = <T extends SchemaCtor>(Ctor: T, ctx: GeneratorContext): InputTypeOf<T> => {
+  const generatorImpl = Generator.get(Ctor)
+
+  if (!generatorImpl) {
+    throw new Error(`No impl found for Generator, Ctor: ${Ctor}`)
+  }
+
+  return generatorImpl.generate(ctx) as InputTypeOf<T>
+}
+
+const createGeneratorContext = (
+  random: () => number,
+  maxDepth: number,
+  depth: number,
+  constraints: S.Constraints,
+): GeneratorContext => {
+  const integer = (min: number, max: number) => {
+    return min + Math.floor(random() * (max - min + 1))
+  }
+
+  return {
+    random,
+    integer,
+    pick: (list) => list[integer(0, list.length - 1)],
+    depth,
+    isMaxDepth: depth >= maxDepth,
+    constraints,
+    generate: (Ctor, itemConstraints) => {
+      const ctx = itemConstraints
+        ? createGeneratorContext(random, maxDepth, depth, { ...constraints, ...itemConstraints })
+        : createGeneratorContext(random, maxDepth, depth, constraints)
+      return generateWith(Ctor, ctx)
+    },
+    generateChild: (Ctor) => {
+      if (depth >= maxDepth + extraDepth) {
+        throw new Error(`Unable to generate a finite value, the depth exceeded ${depth}, Ctor: ${Ctor}`)
+      }
+      return generateWith(Ctor, createGeneratorContext(random, maxDepth, depth + 1, {}))
+    },
+  }
+}
+
+export const Generator = {
+  impl<T extends Schema>(Ctor: abstract new () => T, impl: GeneratorImpl<T>) {
+    generatorWeakMap.set(Ctor, impl as GeneratorImpl)
+  },
+
+  get<T extends SchemaCtor>(Ctor: T): GeneratorMethods<SchemaTypeOf<T>> | undefined {
+    const finalCtor = S.getSchemaCtor(Ctor)
+    const generatorImpl = getGeneratorImpl(finalCtor as unknown as Function) as
+      | GeneratorImpl<SchemaTypeOf<T>>
+      | undefined
+
+    // instantiation generator and save to weak-map
+    if (typeof generatorImpl === 'function') {
+      const schema = getInstance(Ctor) as SchemaTypeOf<T>
+      const impl = generatorImpl(schema)
+
+      generatorWeakMap.set(Ctor, impl)
+
+      return impl
+    }
+
+    return generatorImpl
+  },
+
+  /**
+   * generate a value which passes the validation of Ctor, the wire values of Transform are generated
+   */
+  generate<T extends SchemaCtor>(Ctor: T, options?: GeneratorOptions): InputTypeOf<T> {
+    const seed = options?.seed ?? Math.floor(Math.random() * 4294967296)
+    const ctx = createGeneratorContext(createRandom(seed), options?.maxDepth ?? 3, 0, {})
+
+    return generateWith(Ctor, ctx)
+  },
+}
+
+const letters = 'abcdefghijklmnopqrstuvwxyz'
+
+const hexDigits = '0123456789abcdef'
+
+const generateText = (ctx: GeneratorContext, chars: string, length: number) => {
+  let text = ''
+  for (let i = 0; i < length; i++) {
+    text += chars.charAt(ctx.integer(0, chars.length - 1))
+  }
+  return text
+}
+
+/**
+ * get the range of length which satisfies minLength/maxLength
+ */
+const getLengthRange = (ctx: GeneratorContext, min: number, max: number): [number, number] => {
+  const { minLength, maxLength } = ctx.constraints
+  const from = minLength ?? Math.min(min, maxLength ?? min)
+  const to = maxLength ?? Math.max(max, from)
+  return [from, to]
+}
+
+/**
+ * generate the name in a string of format, the length of string is in the range of minLength/maxLength
+ */
+const generateFormatName = (ctx: GeneratorContext, affixLength: number) => {
+  const [from, to] = getLengthRange(ctx, affixLength + 3, affixLength + 8)
+  return generateText(ctx, letters, ctx.integer(Math.max(from - affixLength, 1), to - affixLength))
+}
+
+const generateString = (ctx: GeneratorContext, minLength: number) => {
+  const { format } = ctx.constraints
+
+  if (format === 'email') {
+    return `${generateFormatName(ctx, '@example.com'.length)}@example.com`
+  }
+
+  if (format === 'url') {
+    return `https://${generateFormatName(ctx, 'https://.com'.length)}.com`
+  }
+
+  if (format === 'uuid') {
+    return [8, 4, 4, 4, 12].map((length) => generateText(ctx, hexDigits, length)).join('-')
+  }
+
+  const [from, to] = getLengthRange(ctx, minLength, 10)
+
+  return generateText(ctx, letters, ctx.integer(from, to))
+}
+
+const generateNumber = (ctx: GeneratorContext, isInteger: boolean) => {
+  const { min, max, multipleOf } = ctx.constraints
+  const from = min ?? (max !== undefined ? max - 100 : 0)
+  const to = max ?? from + 100
+
+  if (multipleOf !== undefined) {
+    const first = Math.ceil(from / multipleOf)
+    const count = Math.floor(to / multipleOf) - first + 1
+    const start = ctx.integer(0, count - 1)
+
+    // products like 3 * 0.1 are not multiples of 0.1 in floating-point, step to the next multiple which is
+    for (let i = 0; i < count; i++) {
+      const value = (first + ((start + i) % count)) * multipleOf
+
+      if (Number.isInteger(value / multipleOf) && (!isInteger || Number.isInteger(value))) {
+        return value
+      }
+    }
+
+    throw new Error(`Unable to generate a multiple of ${multipleOf} between ${from} and ${to}`)
+  }
+
+  if (isInteger) {
+    return ctx.integer(Math.ceil(from), Math.floor(to))
+  }
+
+  const value = Math.round((from + ctx.random() * (to - from)) * 100) / 100
+
+  return Math.min(Math.max(value, from), to)
+}
+
+const generateJson = (ctx: GeneratorContext): S.JsonType => {
+  const kind = ctx.integer(0, 3)
+
+  if (kind === 0) return generateString(ctx, 3)
+  if (kind === 1) return generateNumber(ctx, true)
+  if (kind === 2) return ctx.random() < 0.5
+
+  return null
+}
+
+Generator.impl(S.String, {
+  generate: (ctx) => generateString(ctx, 3),
+})
+
+Generator.impl(S.ID, {
+  generate: (ctx) => generateString(ctx, 1),
+})
+
+Generator.impl(S.Number, {
+  generate: (ctx) => generateNumber(ctx, false),
+})
+
+Generator.impl(S.Int, {
+  generate: (ctx) => generateNumber(ctx, true),
+})
+
+Generator.impl(S.Float, {
+  generate: (ctx) => generateNumber(ctx, false),
+})
+
+Generator.impl(S.Boolean, {
+  generate: (ctx) => ctx.random() < 0.5,
+})
+
+const dateFrom = Date.UTC(2000, 0, 1)
+
+const dateTo = Date.UTC(2030, 0, 1)
+
+Generator.impl(S.Date, {
+  generate: (ctx) => new Date(dateFrom + Math.floor(ctx.random() * (dateTo - dateFrom))),
+})
+
+Generator.impl(S.BigInt, {
+  generate: (ctx) => BigInt(generateNumber(ctx, true)),
+})
+
+Generator.impl(S.Bytes, {
+  generate: (ctx) => Uint8Array.from({ length: ctx.integer(0, 8) }, () => ctx.integer(0, 255)),
+})
+
+Generator.impl(S.Url, {
+  generate: (ctx) => new URL(`https://${generateText(ctx, letters, ctx.integer(3, 8))}.com`),
+})
+
+Generator.impl<S.LiteralType>(S.LiteralType, (schema) => ({
+  generate: () => schema.value,
+}))
+
+Generator.impl<S.EnumType>(S.EnumType, (schema) => ({
+  generate: (ctx) => ctx.pick(schema.values),
+}))
+
+Generator.impl(S.Json, {
+  generate: generateJson,
+})
+
+Generator.impl(S.Any, {
+  generate: generateJson,
+})
+
+Generator.impl(S.Unknown, {
+  generate: generateJson,
+})
+
+Generator.impl(S.Never, {
+  generate: () => {
+    throw new Error(`Never can not be generated`)
+  },
+})
+
+Generator.impl<S.NullableType>(S.NullableType, (schema) => ({
+  generate: (ctx) => {
+    if (ctx.isMaxDepth || ctx.random() < 0.25) {
+      return null
+    }
+    return ctx.generate(schema.Item)
+  },
+}))
+
+Generator.impl<S.LazyType>(S.LazyType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.getItem()),
+}))
+
+Generator.impl<S.TransformType>(S.TransformType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.Item),
+}))
+
+Generator.impl<S.ListType>(S.ListType, (schema) => ({
+  generate: (ctx) => {
+    const [from, to] = getLengthRange(ctx, 0, 3)
+    const length = ctx.isMaxDepth ? from : ctx.integer(from, to)
+    const list = []
+
+    for (let i = 0; i < length; i++) {
+      list.push(ctx.generateChild(schema.Item))
+    }
+
+    return list
+  },
+}))
+
+Generator.impl<S.TupleType>(S.TupleType, (schema) => ({
+  generate: (ctx) => {
+    // the length of tuple is the count of Items, which is unknown to the abstract TupleType
+    return schema.Items.map((Item) => ctx.generateChild(Item)) as InputTypeOf<S.TupleType>
+  },
+}))
+
+Generator.impl<S.RecordType>(S.RecordType, (schema) => ({
+  generate: (ctx) => {
+    const result: { [key: string]: unknown } = {}
+    const size = ctx.isMaxDepth ? 0 : ctx.integer(0, 3)
+
+    for (let i = 0; i < size; i++) {
+      const key = S.isStringKey(schema.Key)
+        ? generateText(ctx, letters, ctx.integer(3, 8))
+        : ctx.generateChild(schema.Key)
+      result[key as string] = ctx.generateChild(schema.Item)
+    }
+
+    return result
+  },
+}))
+
+Generator.impl<S.SetType>(S.SetType, (schema) => ({
+  generate: (ctx) => {
+    const size = ctx.isMaxDepth ? 0 : ctx.integer(0, 3)
+    return new Set(Array.from({ length: size }, () => ctx.generateChild(schema.Item)))
+  },
+}))
+
+Generator.impl<S.MapType>(S.MapType, (schema) => ({
+  generate: (ctx) => {
+    const size = ctx.isMaxDepth ? 0 : ctx.integer(0, 3)
+    return new Map(Array.from({ length: size }, () => [ctx.generateChild(schema.Key), ctx.generateChild(schema.Item)]))
+  },
+}))
+
+Generator.impl<S.StructType>(S.StructType, (schema) => {
+  const fields = getSchemaCtorFields(schema.descriptors)
+
+  return {
+    generate: (ctx) => {
+      const result: { [key: string]: unknown } = {}
+
+      for (const key in fields) {
+        result[key] = ctx.generateChild(fields[key][S.Type])
+      }
+
+      return result
+    },
+  }
+})
+
+Generator.impl(S.ObjectType, (schema) => {
+  const fields = getSchemaCtorFields(schema as unknown as S.FieldDescriptors)
+  const Struct = S.Struct(fields)
+
+  return {
+    generate: (ctx) => ctx.generate(Struct),
+  }
+})
+
+Generator.impl<S.UnionType>(S.UnionType, (schema) => ({
+  generate: (ctx) => {
+    const Items = schema.Items.filter((Item) => Item !== S.Never)
+
+    // try the items in random order, some of them may not be able to generate value
+    const errors: unknown[] = []
+
+    while (Items.length) {
+      const [Item] = Items.splice(ctx.integer(0, Items.length - 1), 1)
+
+      try {
+        return ctx.generate(Item)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+
+    throw errors[0] ?? new Error(`Union without items can not be generated`)
+  },
+}))
+
+Generator.impl<S.TaggedUnionType>(S.TaggedUnionType, (schema) => ({
+  generate: (ctx) => {
+    const tagValue = ctx.pick(Object.keys(schema.Items))
+
+    return {
+      ...(ctx.generate(schema.Items[tagValue]) as object),
+      [schema.tag]: tagValue,
+    }
+  },
+}))
+
+Generator.impl<S.IntersectType>(S.IntersectType, (schema) => ({
+  generate: (ctx) => {
+    return Object.assign({}, ...schema.Items.map((Item) => ctx.generate(Item)))
+  },
+}))
+
+Generator.impl<S.StrictType>(S.StrictType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.Item),
+}))
+
+Generator.impl<S.NonStrictType>(S.NonStrictType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.Item),
+}))
+
+Generator.impl<S.UnknownKeysType>(S.UnknownKeysType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.Item),
+}))
+
+Generator.impl<S.ReadOnlyType>(S.ReadOnlyType, (schema) => ({
+  generate: (ctx): InputTypeOf<S.ReadOnlyType> => ctx.generate(schema.Item) as Readonly<unknown>,
+}))
+
+Generator.impl<S.ReadOnlyDeepType>(S.ReadOnlyDeepType, (schema) => ({
+  generate: (ctx) => ctx.generate(schema.Item),
+}))
+
+Generator.impl<PartialType>(PartialType, (schema) => ({
+  generate: (ctx): InputTypeOf<PartialType> => ctx.generate(schema.Item) as Partial<unknown>,
+}))
+
+// the values of items are generated within the constraints, except for pattern
+Generator.impl<S.ConstrainedType>(S.ConstrainedType, (schema) => ({
+  generate: (ctx) => {
+    const { constraints } = schema
+
+    if (constraints.pattern !== undefined) {
+      throw new Error(
+        `Generating values matching pattern is unsupported, impl Generator for the schema of pattern: /${constraints.pattern}/`,
+      )
+    }
+
+    const value = ctx.generate(schema.Item, constraints)
+    const message = checkConstraints(value, constraints)
+
+    // conflicting constraints like { min: 10, max: 0 } have no value
+    if (message !== undefined) {
+      throw new Error(
+        `Unable to generate a value satisfying the constraints: ${JSON.stringify(constraints)}, ${message}`,
+      )
+    }
+
+    return value
+  },
+}))
+
+// refine can not be generated directly, retry until the value satisfies it
+const maxRefineAttempts = 10
+
+Generator.impl<S.BrandType>(S.BrandType, (schema) => ({
+  generate: (ctx) => {
+    for (let i = 0; i < maxRefineAttempts; i++) {
+      const value = ctx.generate(schema.Item)
+
+      if (!schema.refine || schema.refine(value)) {
+        return value
+      }
+    }
+
+    throw new Error(`Unable to generate a value satisfying the refinement of ${schema.brand}`)
+  },
+}))
+
+export const generate = Generator.generate
@@ -10,10 +10,15 @@ import {
   isFieldDescriptors,
   FieldInfo,
   TypeOf,
+  InputTypeOf,
 } from './schema'
 import * as S from './schema'
 
-export const field = <T extends FieldInfo>(fieldInfo: T): T => {
+export const field = <T extends FieldInfo>(
+  fieldInfo: T & {
+    default?: TypeOf<T['__type']> | (() => TypeOf<T['__type']>)
+  },
+): T => {
   return fieldInfo
 }
 
@@ -197,6 +202,7 @@ export const getSchemaCtorFields = (descriptors: S.FieldDescriptors): SchemaCtor
 
 export abstract class PartialType extends S.Schema {
   __type!: Partial<TypeOf<this['Item']>>
+  __input!: Partial<InputTypeOf<this['Item']>>
   abstract Item: S.SchemaCtor
 }
 
@@ -208,10 +214,15 @@ const getPartialFields = (fields: FieldDescriptors) => {
   const descriptors = {} as S.FieldDescriptors
 
   for (const [key, value] of Object.entries(getSchemaCtorFields(fields))) {
-    descriptors[key] = {
+    const descriptor: S.FieldInfo = {
       ...value,
       [S.Type]: isNullableType(value[S.Type]) ? value[S.Type] : S.Nullable(value[S.Type]),
     }
+
+    // missing fields of partial input should stay missing instead of being filled with default value
+    delete descriptor.default
+
+    descriptors[key] = descriptor
   }
 
   return descriptors
@@ -246,3 +257,267 @@ export const partial: typeof partialStruct & typeof partialObject = (
 
   throw new Error(`Unknown Schema Constructor: ${Ctor}`)
 }
+
+// Struct can not be matched by StructType in conditional types because of `this` in __type
+export type FieldDescriptorsOf<T extends ObjectType | StructType> = T extends { descriptors: FieldDescriptors }
+  ? T['descriptors']
+  : {
+      [key in keyof T as SchemaField<T, key>]: T[key]
+    }
+
+type AsFieldDescriptors<T> = T extends FieldDescriptors ? T : never
+
+const getFieldDescriptors = (Ctor: new () => S.ObjectType | S.StructType): S.FieldDescriptors => {
+  if (Ctor?.prototype instanceof ObjectType) {
+    const instance = getInstance(Ctor)
+    const descriptors = {} as FieldDescriptors
+
+    for (const key of Object.keys(instance)) {
+      // @ts-ignore
+      const value = instance[key]
+      if (isFieldDescriptor(value) || isFieldDescriptors(value)) {
+        descriptors[key] = value
+      }
+    }
+
+    return descriptors
+  }
+
+  if (Ctor?.prototype instanceof StructType) {
+    return (getInstance(Ctor) as S.StructType).descriptors
+  }
+
+  throw new Error(`Unknown Schema Constructor: ${Ctor}`)
+}
+
+/**
+ * the name of Ctor in Formatter, the unnamed Struct has no name
+ */
+const getDisplayName = (Ctor: Function): string | undefined => {
+  const { displayName } = Ctor as typeof S.Schema
+
+  if (displayName) return displayName
+
+  if (Ctor.prototype instanceof ObjectType) return Ctor.name
+
+  return undefined
+}
+
+const setDisplayName = (Ctor: Function, Source: Function, prefix: string) => {
+  const displayName = getDisplayName(Source)
+
+  if (displayName) {
+    const Schema = Ctor as typeof S.Schema
+    Schema.displayName = `${prefix}${displayName}`
+  }
+}
+
+export type ExtendFieldDescriptors<T, U> = S.ShallowPrettier<Omit<T, keyof U> & U>
+
+/**
+ * add fields to Struct or ObjectType, the fields of descriptors take precedence over the existed ones
+ */
+export const extend = <T extends ObjectType | StructType, U extends FieldDescriptors>(
+  Ctor: new () => T,
+  descriptors: U,
+) => {
+  const Extended = Struct({
+    ...getFieldDescriptors(Ctor),
+    ...descriptors,
+  } as ExtendFieldDescriptors<FieldDescriptorsOf<T>, U>)
+
+  setDisplayName(Extended, Ctor, 'Extended')
+
+  return Extended
+}
+
+/**
+ * merge the fields of two Struct or ObjectType, the fields of Right take precedence over the ones of Left
+ */
+export const merge = <T extends ObjectType | StructType, U extends ObjectType | StructType>(
+  Left: new () => T,
+  Right: new () => U,
+) => {
+  const Merged = Struct({
+    ...getFieldDescriptors(Left),
+    ...getFieldDescriptors(Right),
+  } as AsFieldDescriptors<ExtendFieldDescriptors<FieldDescriptorsOf<T>, FieldDescriptorsOf<U>>>)
+
+  // named after both of them, or the named one of them
+  const names = [getDisplayName(Left), getDisplayName(Right)].filter(Boolean)
+
+  if (names.length > 0) {
+    Merged.displayName = `Merged${names.join('')}`
+  }
+
+  return Merged
+}
+
+/**
+ * schemas with Item match NullableType structurally, so the type of value is compared as well
+ */
+type IsNullableType<T> = T extends { Item: infer Item extends S.SchemaCtor; __type: infer U }
+  ? [U] extends [TypeOf<Item> | null | undefined]
+    ? [null] extends [U]
+      ? true
+      : false
+    : false
+  : false
+
+export type RequiredFieldDescriptor<T> = T extends new () => infer I
+  ? IsNullableType<I> extends true
+    ? I extends { Item: infer Item }
+      ? Item
+      : never
+    : T
+  : T extends FieldInfo
+  ? {
+      [key in keyof T]: key extends typeof S.Type ? RequiredFieldDescriptor<T[key]> : T[key]
+    }
+  : T
+
+export type RequiredFieldDescriptors<T> = {
+  [key in keyof T]: RequiredFieldDescriptor<T[key]>
+}
+
+/**
+ * the inverse of partial, fields of Nullable are unwrapped
+ */
+export const required = <T extends ObjectType | StructType>(Ctor: new () => T) => {
+  const descriptors = {} as S.FieldDescriptors
+
+  for (const [key, value] of Object.entries(getSchemaCtorFields(getFieldDescriptors(Ctor)))) {
+    const Item = value[S.Type]
+
+    descriptors[key] = {
+      ...value,
+      [S.Type]: isNullableType(Item) ? getInstance(Item).Item : Item,
+    }
+  }
+
+  const Required = Struct(descriptors as AsFieldDescriptors<RequiredFieldDescriptors<FieldDescriptorsOf<T>>>)
+
+  setDisplayName(Required, Ctor, 'Required')
+
+  return Required
+}
+
+type DeepPartialOfField<T, Input extends boolean> = T extends FieldInfo
+  ? DeepPartialOf<T['__type'], Input>
+  : T extends S.SchemaCtor
+  ? DeepPartialOf<T, Input>
+  : T extends FieldDescriptors
+  ? DeepPartialOfFields<T, Input>
+  : never
+
+type DeepPartialOfFields<T, Input extends boolean> = S.ShallowPrettier<{
+  [key in keyof T]?: DeepPartialOfField<T[key], Input>
+}>
+
+/**
+ * every schema matches ObjectType structurally, so the type of fields is compared as well
+ */
+type IsObjectType<T> = T extends ObjectType
+  ? T['__type'] extends { [key in keyof T as SchemaField<T, key>]: S.TypeOfField<T[key]> }
+    ? true
+    : false
+  : false
+
+type DeepPartialOfSchema<T extends S.SchemaCtor, I, Input extends boolean> = IsNullableType<I> extends true
+  ? I extends { Item: infer Item }
+    ? DeepPartialOf<Item, Input> | null | undefined
+    : never
+  : I extends { descriptors: FieldDescriptors }
+  ? DeepPartialOfFields<I['descriptors'], Input>
+  : IsObjectType<I> extends true
+  ? DeepPartialOfFields<FieldDescriptorsOf<I & ObjectType>, Input>
+  : Input extends true
+  ? InputTypeOf<T>
+  : TypeOf<T>
+
+/**
+ * the type of deepPartial(Ctor), fields of nested Struct and ObjectType are optional as well
+ */
+export type DeepPartialOf<T, Input extends boolean = false> = T extends S.SchemaCtor
+  ? T extends new () => infer I
+    ? DeepPartialOfSchema<T, I, Input>
+    : never
+  : never
+
+const isObjectOrStructType = (input: any): input is new () => S.ObjectType | S.StructType => {
+  return input?.prototype instanceof ObjectType || input?.prototype instanceof StructType
+}
+
+const getDeepPartialSchema = (Ctor: S.SchemaCtor, cache: Map<S.SchemaCtor, S.SchemaCtor>): S.SchemaCtor => {
+  if (isNullableType(Ctor)) {
+    return S.Nullable(getDeepPartialSchema(getInstance(Ctor).Item, cache))
+  }
+
+  if (!isObjectOrStructType(Ctor)) {
+    return Ctor
+  }
+
+  const cached = cache.get(Ctor)
+
+  if (cached) return cached
+
+  // recursive schemas refer to the deep partial one being created
+  cache.set(
+    Ctor,
+    S.Lazy(() => DeepPartial),
+  )
+
+  const descriptors = {} as S.FieldDescriptors
+
+  for (const [key, value] of Object.entries(getSchemaCtorFields(getFieldDescriptors(Ctor)))) {
+    const Item = getDeepPartialSchema(value[S.Type], cache)
+    const descriptor: S.FieldInfo = {
+      ...value,
+      [S.Type]: isNullableType(Item) ? Item : S.Nullable(Item),
+    }
+
+    delete descriptor.default
+
+    descriptors[key] = descriptor
+  }
+
+  const DeepPartial = Struct(descriptors)
+
+  setDisplayName(DeepPartial, Ctor, 'DeepPartial')
+
+  return DeepPartial
+}
+
+/**
+ * like partial, but nested Struct and ObjectType are deep partial as well
+ */
+export const deepPartial = <T extends ObjectType | StructType>(Ctor: new () => T) => {
+  return getDeepPartialSchema(Ctor, new Map()) as new () => S.Schema & {
+    __type: DeepPartialOf<new () => T>
+    __input: DeepPartialOf<new () => T, true>
+  }
+}
+
+/**
+ * create a Struct by mapping every field of Struct or ObjectType
+ */
+export const mapFields = <T extends ObjectType | StructType, U extends S.FieldDescriptor>(
+  Ctor: new () => T,
+  f: (field: FieldInfo, key: keyof FieldDescriptorsOf<T> & string) => U,
+) => {
+  const descriptors = {} as S.FieldDescriptors
+
+  for (const [key, value] of Object.entries(getSchemaCtorFields(getFieldDescriptors(Ctor)))) {
+    descriptors[key] = f(value, key as keyof FieldDescriptorsOf<T> & string)
+  }
+
+  const Mapped = Struct(
+    descriptors as {
+      [key in keyof FieldDescriptorsOf<T>]: U
+    },
+  )
+
+  setDisplayName(Mapped, Ctor, 'Mapped')
+
+  return Mapped
+}
@@ -57,8 +57,30 @@ export class Date extends Schema {
   __type!: DateInstanceType
 }
 
+/**
+ * wire value is a string of integer
+ */
+export class BigInt extends Schema {
+  __type!: bigint
+}
+
+/**
+ * wire value is a base64 string
+ */
+export class Bytes extends Schema {
+  __type!: Uint8Array
+}
+
+/**
+ * wire value is the href of URL
+ */
+export class Url extends Schema {
+  __type!: URL
+}
+
 export abstract class ListType extends Schema {
   __type!: TypeOf<this['Item']>[]
+  __input!: InputTypeOf<this['Item']>[]
 
   abstract Item: SchemaCtor
 }
@@ -69,7 +91,41 @@ export const List = <T extends SchemaCtorInput>(Item: T) => {
   }
 }
 
-export type SchemaField<T extends object, key extends keyof T> = key extends '__type'
+export abstract class SetType extends Schema {
+  __type!: Set<TypeOf<this['Item']>>
+  __input!: Set<InputTypeOf<this['Item']>> | InputTypeOf<this['Item']>[]
+  abstract Item: SchemaCtor
+}
+
+/**
+ * wire value is a list of items
+ */
+export const SetOf = <T extends SchemaCtorInput>(Item: T) => {
+  return class SetOf extends SetType {
+    Item = toSchemaCtor(Item)
+  }
+}
+
+export abstract class MapType extends Schema {
+  __type!: Map<TypeOf<this['Key']>, TypeOf<this['Item']>>
+  __input!:
+    | Map<InputTypeOf<this['Key']>, InputTypeOf<this['Item']>>
+    | [InputTypeOf<this['Key']>, InputTypeOf<this['Item']>][]
+  abstract Key: SchemaCtor
+  abstract Item: SchemaCtor
+}
+
+/**
+ * wire value is a list of [key, value] entries
+ */
+export const MapOf = <K extends SchemaCtorInput, V extends SchemaCtorInput>(Key: K, Item: V) => {
+  return class MapOf extends MapType {
+    Key = toSchemaCtor(Key)
+    Item = toSchemaCtor(Item)
+  }
+}
+
+export type SchemaField<T extends object, key extends keyof T> = key extends '__type' | '__input'
   ? never
   : T[key] extends undefined
   ? never
@@ -89,10 +145,14 @@ export abstract class ObjectType extends Schema {
   __type!: {
     [key in keyof this as SchemaField<this, key>]: TypeOfField<this[key]>
   }
+  __input!: InputTypeOfFieldDescriptors<{
+    [key in keyof this as SchemaField<this, key>]: this[key]
+  }>
 }
 
 export abstract class UnionType extends Schema {
   __type!: TypeOf<this['Items'][number]>
+  __input!: InputTypeOf<this['Items'][number]>
   abstract Items: SchemaCtor[]
 }
 
@@ -102,6 +162,33 @@ export const Union = <T extends SchemaCtorInput[]>(...Items: T) => {
   }
 }
 
+export type TypeOfTaggedUnion<Tag extends string, T> = {
+  [key in keyof T]: ShallowPrettier<{ [tag in Tag]: key } & (T[key] extends SchemaCtor ? TypeOf<T[key]> : never)>
+}[keyof T]
+
+export type InputTypeOfTaggedUnion<Tag extends string, T> = {
+  [key in keyof T]: ShallowPrettier<{ [tag in Tag]: key } & (T[key] extends SchemaCtor ? InputTypeOf<T[key]> : never)>
+}[keyof T]
+
+export abstract class TaggedUnionType extends Schema {
+  __type!: TypeOfTaggedUnion<this['tag'], this['Items']>
+  __input!: InputTypeOfTaggedUnion<this['tag'], this['Items']>
+  abstract tag: string
+  abstract Items: {
+    [key: string]: SchemaCtor
+  }
+}
+
+/**
+ * union of objects which picks the branch by the value of tag field
+ */
+export const TaggedUnion = <Tag extends string, T extends { [key: string]: SchemaCtorInput }>(tag: Tag, Items: T) => {
+  return class TaggedUnion extends TaggedUnionType {
+    tag = tag
+    Items = toSchemaCtors(Items)
+  }
+}
+
 export type UnionToIntersection<T> = (T extends any ? (x: T) => any : never) extends (x: infer R) => any ? R : never
 
 export type TypeOfIntersect<T extends SchemaCtor[]> = UnionToIntersection<TypeOf<T[number]>>
@@ -134,8 +221,32 @@ export const Null = Literal(null)
 
 export const Undefined = Literal(undefined)
 
+export type EnumValue = string | number
+
+export abstract class EnumType extends Schema {
+  __type!: this['values'][number]
+  abstract name: string
+  abstract values: EnumValue[]
+  /**
+   * the names of values when enum was created by a record
+   */
+  abstract members?: { [name: string]: EnumValue }
+}
+
+/**
+ * a named set of string/number values, created by a list of values or a record of name -> value
+ */
+export const Enum = <T extends EnumValue>(name: string, values: T[] | { [name: string]: T }) => {
+  return class Enum extends EnumType {
+    name = name
+    values = Array.isArray(values) ? values : Object.values(values)
+    members = Array.isArray(values) ? undefined : values
+  }
+}
+
 export abstract class NullableType extends Schema {
   __type!: TypeOf<this['Item']> | null | undefined
+  __input!: InputTypeOf<this['Item']> | null | undefined
   abstract Item: SchemaCtor
 }
 
@@ -149,12 +260,102 @@ export const Nullable = <T extends SchemaCtorInput>(Item: T) => {
   }
 }
 
+export abstract class LazyType extends Schema {
+  __type!: TypeOf<ReturnType<this['getItem']>>
+  __input!: InputTypeOf<ReturnType<this['getItem']>>
+  abstract getItem(): SchemaCtor
+}
+
+/**
+ * refer to a schema which may be declared later, useful for recursive schemas
+ */
+export const Lazy = <T extends SchemaCtor>(getItem: () => T) => {
+  return class Lazy extends LazyType {
+    getItem() {
+      return getItem()
+    }
+  }
+}
+
+export type Transformer<Wire = any, Runtime = any> = {
+  /**
+   * convert validated wire value to runtime value, throw an error to reject it
+   */
+  decode: (input: Wire) => Runtime
+  /**
+   * convert runtime value back to wire value
+   */
+  encode: (value: Runtime) => Wire
+}
+
+export abstract class TransformType extends Schema {
+  __type!: ReturnType<this['transformer']['decode']>
+  __input!: InputTypeOf<this['Item']>
+  abstract Item: SchemaCtor
+  abstract transformer: Transformer
+}
+
+/**
+ * a schema whose wire value is described by Item and decoded to another runtime value
+ */
+export const Transform = <T extends SchemaCtorInput, R>(
+  Item: T,
+  transformer: Transformer<TypeOfSchemaCtorInput<T>, R>,
+) => {
+  return class Transform extends TransformType {
+    Item = toSchemaCtor(Item)
+    transformer = transformer
+  }
+}
+
+/**
+ * a nominal type, values of different brands are not assignable to each other
+ */
+export type Branded<T, Brand extends string> = T & { readonly __brand: Brand }
+
+export abstract class BrandType extends Schema {
+  __type!: Branded<TypeOf<this['Item']>, this['brand']>
+  __input!: InputTypeOf<this['Item']>
+  abstract Item: SchemaCtor
+  abstract brand: string
+  /**
+   * optional refinement of the value validated by Item
+   */
+  abstract refine?: (value: any) => boolean
+}
+
+/**
+ * a scalar schema branded by name, it validates like Item and produces a branded type
+ */
+export const Brand = <T extends SchemaCtorInput, B extends string>(
+  Item: T,
+  brand: B,
+  refine?: (value: TypeOfSchemaCtorInput<T>) => boolean,
+) => {
+  return class Brand extends BrandType {
+    Item = toSchemaCtor(Item)
+    brand = brand
+    refine = refine
+  }
+}
+
 export const Type = '__type' as const
 
 export type FieldInfo = {
   __type: SchemaCtor
   description?: string
   deprecated?: string
+  /**
+   * value or thunk of value to use when the field is undefined
+   */
+  default?: unknown
+}
+
+export const getFieldDefault = (fieldInfo: FieldInfo): unknown => {
+  if (typeof fieldInfo.default === 'function') {
+    return fieldInfo.default()
+  }
+  return fieldInfo.default
 }
 
 export type FieldDescriptor = SchemaCtor | FieldInfo
@@ -179,6 +380,7 @@ export type TypeOfFieldDescriptors<T extends FieldDescriptors> = {
 
 export abstract class StructType extends Schema {
   __type!: ShallowPrettier<TypeOfFieldDescriptors<this['descriptors']>>
+  __input!: InputTypeOfFieldDescriptors<this['descriptors']>
   abstract descriptors: FieldDescriptors
 }
 
@@ -188,20 +390,41 @@ export const Struct = <T extends FieldDescriptors>(descriptors: T) => {
   }
 }
 
+/**
+ * keys are optional unless the key type is string
+ */
+export type TypeOfRecord<K, V> = string extends K
+  ? {
+      [key: string]: V
+    }
+  : {
+      [key in K & (string | number)]?: V
+    }
+
 export abstract class RecordType extends Schema {
-  __type!: {
-    /**
-     * workaround for:
-     * if the key part missing keyword `this`, `this` in the value part will not be recognized as the current type
-     */
-    [key in keyof this as string]: TypeOf<this['Item']>
-  }
+  __type!: TypeOfRecord<TypeOf<this['Key']>, TypeOf<this['Item']>>
+  __input!: TypeOfRecord<TypeOf<this['Key']>, InputTypeOf<this['Item']>>
+  abstract Key: SchemaCtor
   abstract Item: SchemaCtor
 }
 
-export const Record = <T extends SchemaCtorInput>(Item: T) => {
+export const isStringKey = (Key: SchemaCtor) => {
+  return Key === String || isStringConstructor(Key)
+}
+
+/**
+ * Record(Item) has string keys, Record(Key, Item) validates keys by Key, like Literal union, Enum or Pattern
+ */
+export const Record = <A extends SchemaCtorInput, B extends SchemaCtorInput | undefined = undefined>(
+  KeyOrItem: A,
+  Item?: B,
+) => {
+  type Key = B extends SchemaCtorInput ? ToSchemaCtor<A> : typeof String
+  type Item = B extends SchemaCtorInput ? ToSchemaCtor<B> : ToSchemaCtor<A>
+
   return class Record extends RecordType {
-    Item = toSchemaCtor(Item)
+    Key = (Item === undefined ? String : toSchemaCtor(KeyOrItem)) as Key
+    Item = toSchemaCtor(Item === undefined ? KeyOrItem : Item) as Item
   }
 }
 
@@ -236,6 +459,7 @@ export class Json extends Schema {
 
 export abstract class StrictType extends Schema {
   __type!: TypeOf<this['Item']>
+  __input!: InputTypeOf<this['Item']>
   abstract Item: SchemaCtor
 }
 
@@ -247,6 +471,7 @@ export const Strict = <T extends SchemaCtorInput>(Item: T) => {
 
 export abstract class NonStrictType extends Schema {
   __type!: TypeOf<this['Item']>
+  __input!: InputTypeOf<this['Item']>
   abstract Item: SchemaCtor
 }
 
@@ -256,8 +481,38 @@ export const NonStrict = <T extends SchemaCtorInput>(Item: T) => {
   }
 }
 
+/**
+ * how to handle the keys of object which are not declared in Struct/ObjectType
+ * - strip: drop them from the output
+ * - reject: report an error for each of them
+ * - passthrough: keep them in the output as they are
+ */
+export type UnknownKeys = 'strip' | 'reject' | 'passthrough'
+
+export abstract class UnknownKeysType extends Schema {
+  __type!: TypeOf<this['Item']>
+  __input!: InputTypeOf<this['Item']>
+  abstract Item: SchemaCtor
+  abstract unknownKeys: UnknownKeys
+}
+
+export const UnknownKeys = <T extends SchemaCtorInput>(Item: T, unknownKeys: UnknownKeys) => {
+  return class UnknownKeys extends UnknownKeysType {
+    Item = toSchemaCtor(Item)
+    unknownKeys = unknownKeys
+  }
+}
+
+/**
+ * reject the keys which are not declared in Struct/ObjectType
+ */
+export const Exact = <T extends SchemaCtorInput>(Item: T) => {
+  return UnknownKeys(Item, 'reject')
+}
+
 export abstract class ReadOnlyType extends Schema {
   __type!: Readonly<TypeOf<this['Item']>>
+  __input!: Readonly<InputTypeOf<this['Item']>>
   abstract Item: SchemaCtor
 }
 
@@ -344,7 +599,7 @@ export type TypeOfSchemaCtorInput<T extends SchemaCtor | FieldDescriptors> = T e
 export type ToSchemaCtor<T extends SchemaCtorInput> = T extends SchemaCtor
   ? T
   : T extends FieldDescriptors
-  ? new () => { __type: ShallowPrettier<TypeOfFieldDescriptors<T>> }
+  ? new () => { __type: ShallowPrettier<TypeOfFieldDescriptors<T>>; __input: InputTypeOfFieldDescriptors<T> }
   : never
 
 export type SchemaCtorInputs =
@@ -443,4 +698,122 @@ export const Tuple = <T extends SchemaCtorInput[]>(...Items: T) => {
   return class Tuple extends TupleType {
     Items = toSchemaCtors(Items)
   }
-}
\ No newline at end of file
+}
+
+export type Constraints = {
+  /**
+   * minimum of number
+   */
+  min?: number
+  /**
+   * maximum of number
+   */
+  max?: number
+  /**
+   * number should be divisible by it
+   */
+  multipleOf?: number
+  /**
+   * minimum length of string or list
+   */
+  minLength?: number
+  /**
+   * maximum length of string or list
+   */
+  maxLength?: number
+  /**
+   * source of the regular expression which string should match
+   */
+  pattern?: string
+  /**
+   * well-known format of string
+   */
+  format?: 'email' | 'uuid' | 'url'
+}
+
+export abstract class ConstrainedType extends Schema {
+  __type!: TypeOf<this['Item']>
+  __input!: InputTypeOf<this['Item']>
+  abstract Item: SchemaCtor
+  abstract constraints: Constraints
+}
+
+export const isConstrainedType = (input: any): input is new () => ConstrainedType => {
+  return input?.prototype instanceof ConstrainedType
+}
+
+export const Constrained = <T extends SchemaCtorInput>(Item: T, constraints: Constraints) => {
+  const Ctor = toSchemaCtor(Item)
+  // flatten nested constraints, Min(Max(Int, 10), 0) is the same as Constrained(Int, { min: 0, max: 10 })
+  const base = isConstrainedType(Ctor) ? getInstance(Ctor as new () => ConstrainedType) : undefined
+
+  return class Constrained extends ConstrainedType {
+    Item = (base ? base.Item : Ctor) as ToSchemaCtor<T>
+    constraints = {
+      ...base?.constraints,
+      ...constraints,
+    }
+  }
+}
+
+export const Min = <T extends SchemaCtorInput>(Item: T, min: number) => {
+  return Constrained(Item, { min })
+}
+
+export const Max = <T extends SchemaCtorInput>(Item: T, max: number) => {
+  return Constrained(Item, { max })
+}
+
+export const MultipleOf = <T extends SchemaCtorInput>(Item: T, multipleOf: number) => {
+  return Constrained(Item, { multipleOf })
+}
+
+export const MinLength = <T extends SchemaCtorInput>(Item: T, minLength: number) => {
+  return Constrained(Item, { minLength })
+}
+
+export const MaxLength = <T extends SchemaCtorInput>(Item: T, maxLength: number) => {
+  return Constrained(Item, { maxLength })
+}
+
+export const Pattern = <T extends SchemaCtorInput>(Item: T, pattern: string) => {
+  return Constrained(Item, { pattern })
+}
+
+export const Email = Constrained(String, { format: 'email' })
+
+export const Uuid = Constrained(String, { format: 'uuid' })
+
+export const UrlString = Constrained(String, { format: 'url' })
+
+type DefaultFieldKeys<T> = {
+  [key in keyof T]: T[key] extends { default: unknown } ? key : never
+}[keyof T]
+
+export type InputTypeOfField<T> = T extends FieldInfo
+  ? InputTypeOf<T['__type']>
+  : T extends SchemaCtor
+  ? InputTypeOf<T>
+  : T extends FieldDescriptors
+  ? InputTypeOfFieldDescriptors<T>
+  : never
+
+/**
+ * fields with default value are optional in input
+ */
+export type InputTypeOfFieldDescriptors<T> = ShallowPrettier<
+  {
+    [key in Exclude<keyof T, DefaultFieldKeys<T>>]: InputTypeOfField<T[key]>
+  } & {
+    [key in DefaultFieldKeys<T>]?: InputTypeOfField<T[key]>
+  }
+>
+
+/**
+ * the type of value accepted by the validator, it differs from TypeOf in fields with default value
+ */
+export type InputTypeOf<T extends SchemaCtor | Schema> = T extends new () => { __input: infer U }
+  ? U
+  : T extends { __input: infer U }
+  ? U
+  : TypeOf<T>
@@ -13,3 +13,93 @@ export const isBooleanConstructor = (input: any): input is BooleanConstructor =>
 export const isDateConstructor = (input: any): input is DateConstructor => {
   return input === Date
 }
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let result = ''
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0)
+
+    result += base64Chars[(chunk >> 18) & 63] + base64Chars[(chunk >> 12) & 63]
+    result += i + 1 < bytes.length ? base64Chars[(chunk >> 6) & 63] : '='
+    result += i + 2 < bytes.length ? base64Chars[chunk & 63] : '='
+  }
+
+  return result
+}
+
+/**
+ * return undefined when input is not a valid base64 string
+ */
+export const decodeBase64 = (input: string): Uint8Array | undefined => {
+  if (!/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(input)) {
+    return undefined
+  }
+
+  const padding = input.endsWith('==') ? 2 : input.endsWith('=') ? 1 : 0
+  const bytes = new Uint8Array((input.length / 4) * 3 - padding)
+
+  for (let i = 0, j = 0; i < input.length; i += 4) {
+    const chunk =
+      (base64Chars.indexOf(input[i]) << 18) |
+      (base64Chars.indexOf(input[i + 1]) << 12) |
+      ((base64Chars.indexOf(input[i + 2]) & 63) << 6) |
+      (base64Chars.indexOf(input[i + 3]) & 63)
+
+    bytes[j++] = (chunk >> 16) & 255
+    if (j < bytes.length) bytes[j++] = (chunk >> 8) & 255
+    if (j < bytes.length) bytes[j++] = chunk & 255
+  }
+
+  return bytes
+}
+
+const isFreezable = (input: unknown): input is object => {
+  if (Array.isArray(input)) return true
+  if (typeof input !== 'object' || input === null) return false
+  const proto = Object.getPrototypeOf(input)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * freeze arrays and plain objects, others like Date or Uint8Array are returned as they are
+ */
+export const freeze = <T>(input: T): T => {
+  return isFreezable(input) ? Object.freeze(input) : input
+}
+
+/**
+ * freeze arrays and plain objects recursively, the items of Map and Set are frozen but not themselves
+ */
+export const deepFreeze = <T>(input: T, seen = new WeakSet<object>()): T => {
+  if (typeof input !== 'object' || input === null || seen.has(input)) {
+    return input
+  }
+
+  seen.add(input)
+
+  if (input instanceof Map) {
+    input.forEach((value, key) => {
+      deepFreeze(key, seen)
+      deepFreeze(value, seen)
+    })
+    return input
+  }
+
+  if (input instanceof Set) {
+    input.forEach((value) => deepFreeze(value, seen))
+    return input
+  }
+
+  if (!isFreezable(input)) {
+    return input
+  }
+
+  for (const value of Object.values(input)) {
+    deepFreeze(value, seen)
+  }
+
+  return Object.freeze(input)
+}
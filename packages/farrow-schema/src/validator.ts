@@ -3,14 +3,132 @@ import { SchemaCtor, TypeOf, Schema, SchemaTypeOf, getInstance } from './schema'
 
 import { getSchemaCtorFields, PartialType } from './helper'
 import { Result, Err, Ok } from './result'
+import { decodeBase64, freeze, deepFreeze } from './utils'
+
+/**
+ * the kind of failure found by the built-in validators
+ */
+export type ValidationErrorCode =
+  | 'invalid_type'
+  | 'empty_id'
+  | 'invalid_date'
+  | 'invalid_base64'
+  | 'invalid_url'
+  | 'invalid_literal'
+  | 'invalid_enum'
+  | 'invalid_union'
+  | 'invalid_tag'
+  | 'unknown_key'
+  | 'constraint'
+  | 'invalid_brand'
+
+export type ValidationErrorParams = {
+  /**
+   * what was expected, like the kind of value, the literal, the enum name, the tags, the brand or the constraint value
+   */
+  expected?: S.JsonType
+  /**
+   * the input as it is, so it may not be serializable when the input is not
+   */
+  received?: S.JsonType
+  /**
+   * the unsatisfied constraint, only for the code constraint
+   */
+  constraint?: keyof S.Constraints
+  /**
+   * the messages of unmatched members, only for the code invalid_union
+   */
+  reasons?: string[]
+}
 
 export type ValidationError = {
   path?: (string | number)[]
   message: string
+  /**
+   * absent in the errors created by SchemaErr, like the ones of ValidatorType and Transform
+   */
+  code?: ValidationErrorCode
+  params?: ValidationErrorParams
+  /**
+   * every error found in input, only exists when options.abortEarly is false
+   */
+  errors?: ValidationError[]
 }
 
 export type ValidationResult<T = any> = Result<T, ValidationError>
 
+export type ValidationMessages = {
+  [code in ValidationErrorCode]: (params: ValidationErrorParams) => string
+}
+
+/**
+ * returns undefined to use the message of locale
+ */
+export type ValidationMessageFormatter = (code: ValidationErrorCode, params: ValidationErrorParams) => string | undefined
+
+const typeNames: { [expected: string]: string } = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  ID: 'an ID',
+  boolean: 'a boolean',
+  bigint: 'a bigint',
+  list: 'a list',
+  array: 'an array',
+  object: 'an object',
+}
+
+const constraintMessages: { [key in keyof S.Constraints]-?: (received: unknown, expected: any) => string } = {
+  min: (received, expected) => `${received} is less than the minimum ${expected}`,
+  max: (received, expected) => `${received} is greater than the maximum ${expected}`,
+  multipleOf: (received, expected) => `${received} is not a multiple of ${expected}`,
+  minLength: (received, expected) => `the length of ${received} is less than the minimum length ${expected}`,
+  maxLength: (received, expected) => `the length of ${received} is greater than the maximum length ${expected}`,
+  pattern: (received, expected) => `${received} was not matched: /${expected}/`,
+  format: (received, expected) => `${received} is not a valid ${expected}`,
+}
+
+export const englishMessages: ValidationMessages = {
+  invalid_type: ({ expected, received }) => `${received} is not ${typeNames[`${expected}`] ?? expected}`,
+  empty_id: () => `ID can't be empty.`,
+  invalid_date: ({ received }) => `${received} is not a valid date input`,
+  invalid_base64: ({ received }) => `${received} is not a valid base64 string`,
+  invalid_url: ({ received }) => `${received} is not a valid url`,
+  invalid_literal: ({ expected, received }) => `${received} is not a literal ${expected}`,
+  invalid_enum: ({ expected, received }) => `${received} is not a value of enum ${expected}`,
+  invalid_union: ({ reasons = [] }) => `Matched unions failed: \n${reasons.join('\n&\n')}`,
+  invalid_tag: ({ expected, received }) => `${received} is not one of the tags: ${(expected as string[]).join(', ')}`,
+  unknown_key: ({ received }) => `${received} is not a known key`,
+  constraint: ({ constraint, expected, received }) => constraintMessages[constraint!](received, expected),
+  invalid_brand: ({ expected, received }) => `${received} is not a valid ${expected}`,
+}
+
+const locales = new Map<string, ValidationMessages>([['en', englishMessages]])
+
+export const ValidationLocale = {
+  /**
+   * add or override the messages of locale, the missing ones fall back to English
+   */
+  register(locale: string, messages: Partial<ValidationMessages>) {
+    locales.set(locale, {
+      ...(locales.get(locale) ?? englishMessages),
+      ...messages,
+    })
+  },
+
+  get(locale: string): ValidationMessages {
+    return locales.get(locale) ?? englishMessages
+  },
+}
+
+export const formatValidationMessage = (
+  code: ValidationErrorCode,
+  params: ValidationErrorParams,
+  options?: ValidatorOptions,
+): string => {
+  return options?.formatMessage?.(code, params) ?? ValidationLocale.get(options?.locale ?? 'en')[code](params)
+}
+
 export const SchemaErr = (message: string, path?: ValidationError['path']): Err<ValidationError> => {
   return Err({
     path,
@@ -18,20 +136,113 @@ export const SchemaErr = (message: string, path?: ValidationError['path']): Err<
   })
 }
 
+/**
+ * create the error of built-in validators, its message is formatted by options.formatMessage or options.locale
+ */
+export const SchemaCodeErr = (
+  code: ValidationErrorCode,
+  params: Omit<ValidationErrorParams, 'expected' | 'received'> & { expected?: unknown; received?: unknown },
+  options?: ValidatorOptions,
+  path?: ValidationError['path'],
+): Err<ValidationError> => {
+  return Err({
+    path,
+    message: formatValidationMessage(code, params as ValidationErrorParams, options),
+    code,
+    params: params as ValidationErrorParams,
+  })
+}
+
+/**
+ * flatten a validation error to the list of errors it carries
+ */
+export const getValidationErrors = (error: ValidationError): ValidationError[] => {
+  return error.errors ?? [error]
+}
+
+/**
+ * create an error from a non-empty list of errors, the first one is used as the summary
+ */
+export const SchemaErrors = (errors: ValidationError[]): Err<ValidationError> => {
+  const [first] = errors
+  return Err({
+    path: first.path,
+    message: first.message,
+    code: first.code,
+    params: first.params,
+    errors,
+  })
+}
+
+/**
+ * prefix the path of error and the errors it carries
+ */
+export const prependPath = (error: ValidationError, path: (string | number)[]): ValidationError => {
+  const result: ValidationError = {
+    path: [...path, ...(error.path ?? [])],
+    message: error.message,
+  }
+
+  if (error.code) {
+    result.code = error.code
+    result.params = error.params
+  }
+
+  if (error.errors) {
+    result.errors = error.errors.map((item) => prependPath(item, path))
+  }
+
+  return result
+}
+
 export type ValidatorOptions = {
   strict?: boolean
+  /**
+   * stop at the first error or collect all errors of Struct/ObjectType/List/Record/Tuple/Intersect
+   * default: true
+   */
+  abortEarly?: boolean
+  /**
+   * how to handle the keys not declared in Struct/ObjectType
+   * default: 'strip'
+   */
+  unknownKeys?: S.UnknownKeys
+  /**
+   * the locale of error messages, the ones registered by ValidationLocale.register
+   * default: 'en'
+   */
+  locale?: string
+  /**
+   * format the messages of built-in errors, it takes precedence over locale
+   */
+  formatMessage?: ValidationMessageFormatter
+  /**
+   * freeze the output of ReadOnly and deep freeze the output of ReadOnlyDeep
+   * the values passed through as they are, like the ones of Any or Json, are frozen in place
+   * default: false
+   */
+  freeze?: boolean
 }
 
 export type Validator<T = any> = (input: unknown, options?: ValidatorOptions) => ValidationResult<T>
 
+export type AsyncValidator<T = any> = (input: unknown, options?: ValidatorOptions) => Promise<ValidationResult<T>>
+
 export type ValidatorMethods<T extends Schema = Schema> = {
   validate: Validator<TypeOf<T>>
+  /**
+   * used by Validator.validateAsync when the schema contains async parts
+   */
+  validateAsync?: AsyncValidator<TypeOf<T>>
 }
 
 export type ValidatorImpl<T extends Schema = Schema> = ValidatorMethods<T> | ((schema: T) => ValidatorMethods<T>)
 
 const validatorWeakMap = new WeakMap<Function, ValidatorImpl>()
 
+// instantiated impl -> the impl passed to Validator.impl
+const validatorOriginWeakMap = new WeakMap<ValidatorMethods, ValidatorImpl>()
+
 const getValidatorImpl = (input: Function): ValidatorImpl | undefined => {
   if (typeof input !== 'function') {
     return undefined
@@ -65,6 +276,7 @@ export const Validator = {
       const impl = validatorImpl(schema)
 
       validatorWeakMap.set(Ctor, impl)
+      validatorOriginWeakMap.set(impl as ValidatorMethods, validatorImpl as ValidatorImpl)
 
       return impl
     }
@@ -81,14 +293,135 @@ export const Validator = {
 
     return validatorImpl.validate(input, options) as ValidationResult<TypeOf<T>>
   },
+
+  /**
+   * validate input which may contain async parts, schemas without async parts are validated synchronously
+   */
+  async validateAsync<T extends SchemaCtor>(
+    Ctor: T,
+    input: unknown,
+    options?: ValidatorOptions,
+  ): Promise<ValidationResult<TypeOf<T>>> {
+    const validatorImpl = Validator.get(Ctor)
+
+    if (!validatorImpl) {
+      throw new Error(`No impl found for Validator, Ctor: ${Ctor}`)
+    }
+
+    if (validatorImpl.validateAsync && Validator.isAsync(Ctor)) {
+      return validatorImpl.validateAsync(input, options) as Promise<ValidationResult<TypeOf<T>>>
+    }
+
+    return validatorImpl.validate(input, options) as ValidationResult<TypeOf<T>>
+  },
+
+  /**
+   * check if Ctor contains async parts, which can only be validated by Validator.validateAsync
+   */
+  isAsync(Ctor: SchemaCtor): boolean {
+    const finalCtor = S.getSchemaCtor(Ctor) as unknown as Function
+    let isAsync = asyncWeakMap.get(finalCtor)
+
+    if (isAsync === undefined) {
+      isAsync = hasAsyncParts(Ctor, new Set())
+      asyncWeakMap.set(finalCtor, isAsync)
+    }
+
+    return isAsync
+  },
+}
+
+const asyncWeakMap = new WeakMap<Function, boolean>()
+
+/**
+ * get the schemas which Ctor validates its input with, undefined means Ctor has no known items
+ */
+const getItems = (Ctor: SchemaCtor): SchemaCtor[] | undefined => {
+  const schema = getInstance(Ctor)
+
+  if (schema instanceof S.StructType) {
+    const fields = getSchemaCtorFields(schema.descriptors)
+    return Object.values(fields).map((field) => field[S.Type])
+  }
+
+  if (schema instanceof S.ObjectType) {
+    const fields = getSchemaCtorFields((schema as unknown) as S.FieldDescriptors)
+    return Object.values(fields).map((field) => field[S.Type])
+  }
+
+  if (schema instanceof S.UnionType || schema instanceof S.IntersectType || schema instanceof S.TupleType) {
+    return schema.Items
+  }
+
+  if (schema instanceof S.TaggedUnionType) {
+    return Object.values(schema.Items)
+  }
+
+  if (schema instanceof S.LazyType) {
+    return [schema.getItem()]
+  }
+
+  if (schema instanceof S.MapType || schema instanceof S.RecordType) {
+    return [schema.Key, schema.Item]
+  }
+
+  if (
+    schema instanceof S.NullableType ||
+    schema instanceof S.ListType ||
+    schema instanceof S.SetType ||
+    schema instanceof S.TransformType ||
+    schema instanceof S.StrictType ||
+    schema instanceof S.NonStrictType ||
+    schema instanceof S.ReadOnlyType ||
+    schema instanceof S.ReadOnlyDeepType ||
+    schema instanceof S.UnknownKeysType ||
+    schema instanceof S.ConstrainedType ||
+    schema instanceof S.BrandType ||
+    schema instanceof PartialType
+  ) {
+    return [schema.Item]
+  }
+
+  return undefined
+}
+
+const hasAsyncParts = (Ctor: SchemaCtor, visited: Set<Function>): boolean => {
+  const finalCtor = S.getSchemaCtor(Ctor) as unknown as Function
+
+  // recursive schemas are checked once
+  if (visited.has(finalCtor)) return false
+
+  visited.add(finalCtor)
+
+  const items = getItems(Ctor)
+
+  // the schemas without known items are async when their impl has validateAsync, like AsyncValidatorType
+  if (!items) {
+    return !!Validator.get(Ctor)?.validateAsync
+  }
+
+  return items.some((Item) => hasAsyncParts(Item, visited))
+}
+
+/**
+ * get the impl which was passed to Validator.impl for Ctor or its super classes
+ */
+export const getValidatorImplOrigin = (Ctor: SchemaCtor): ValidatorImpl | undefined => {
+  const impl = getValidatorImpl(S.getSchemaCtor(Ctor) as unknown as Function)
+
+  if (impl && typeof impl !== 'function') {
+    return validatorOriginWeakMap.get(impl) ?? impl
+  }
+
+  return impl
 }
 
 Validator.impl(S.String, {
-  validate: (input) => {
+  validate: (input, options) => {
     if (typeof input === 'string') {
       return Ok(input)
     }
-    return SchemaErr(`${input} is not a string`)
+    return SchemaCodeErr('invalid_type', { expected: 'string', received: input }, options)
   },
 })
 
@@ -115,7 +448,7 @@ Validator.impl(S.Number, {
       if (result.isOk) return result
     }
 
-    return SchemaErr(`${input} is not a number`)
+    return SchemaCodeErr('invalid_type', { expected: 'number', received: input }, options)
   },
 })
 
@@ -131,7 +464,7 @@ Validator.impl(S.Int, {
       if (result.isOk) return Ok(Math.floor(result.value))
     }
 
-    return SchemaErr(`${input} is not an integer`)
+    return SchemaCodeErr('invalid_type', { expected: 'integer', received: input }, options)
   },
 })
 
@@ -146,20 +479,20 @@ Validator.impl(S.Float, {
       if (result.isOk) return result
     }
 
-    return SchemaErr(`${input} is not a number`)
+    return SchemaCodeErr('invalid_type', { expected: 'number', received: input }, options)
   },
 })
 
 Validator.impl(S.ID, {
-  validate: (input) => {
+  validate: (input, options) => {
     if (typeof input === 'string') {
       if (input === '') {
-        return SchemaErr(`ID can't be empty.`)
+        return SchemaCodeErr('empty_id', { received: input }, options)
       }
       return Ok(input)
     }
 
-    return SchemaErr(`${input} is not an ID`)
+    return SchemaCodeErr('invalid_type', { expected: 'ID', received: input }, options)
   },
 })
 
@@ -180,13 +513,13 @@ Validator.impl(S.Boolean, {
       if (result.isOk) return result
     }
 
-    return SchemaErr(`${input} is not a boolean`)
+    return SchemaCodeErr('invalid_type', { expected: 'boolean', received: input }, options)
   },
 })
 
 
 Validator.impl(S.Date, {
-  validate(input) {
+  validate(input, options) {
     if (input instanceof Date) {
       return Ok(input)
     }
@@ -199,13 +532,64 @@ Validator.impl(S.Date, {
       const timestamp = Date.parse(input)
 
       if (Number.isNaN(timestamp)) {
-        return SchemaErr(`${input} is not a valid date input`)
+        return SchemaCodeErr('invalid_date', { received: input }, options)
       }
 
       return Ok(new Date(timestamp))
     }
 
-    return SchemaErr(`${input} is not a valid date input`)
+    return SchemaCodeErr('invalid_date', { received: input }, options)
+  },
+})
+
+Validator.impl(S.BigInt, {
+  validate: (input, options) => {
+    if (typeof input === 'bigint') {
+      return Ok(input)
+    }
+
+    if (typeof input === 'number' && Number.isSafeInteger(input)) {
+      return Ok(BigInt(input))
+    }
+
+    if (typeof input === 'string' && /^-?\d+$/.test(input)) {
+      return Ok(BigInt(input))
+    }
+
+    return SchemaCodeErr('invalid_type', { expected: 'bigint', received: input }, options)
+  },
+})
+
+Validator.impl(S.Bytes, {
+  validate: (input, options) => {
+    if (input instanceof Uint8Array) {
+      return Ok(input)
+    }
+
+    if (typeof input === 'string') {
+      const bytes = decodeBase64(input)
+      if (bytes) return Ok(bytes)
+    }
+
+    return SchemaCodeErr('invalid_base64', { received: input }, options)
+  },
+})
+
+Validator.impl(S.Url, {
+  validate: (input, options) => {
+    if (input instanceof URL) {
+      return Ok(input)
+    }
+
+    if (typeof input === 'string') {
+      try {
+        return Ok(new URL(input))
+      } catch (error) {
+        // fall through
+      }
+    }
+
+    return SchemaCodeErr('invalid_url', { received: input }, options)
   },
 })
 
@@ -226,78 +610,357 @@ Validator.impl<S.LiteralType>(S.LiteralType, (schema) => ({
       }
     }
 
-    return SchemaErr(`${input} is not a literal ${value}`)
+    return SchemaCodeErr('invalid_literal', { expected: value, received: input }, options)
   },
 }))
 
+Validator.impl<S.EnumType>(S.EnumType, (schema) => {
+  const values = new Set<unknown>(schema.values)
+
+  return {
+    validate: (input, options) => {
+      if (values.has(input)) {
+        return Ok(input as S.EnumValue)
+      }
+
+      if (options?.strict === false) {
+        const result = parseNumberLiteral(input)
+        if (result.isOk && values.has(result.value)) return result
+      }
+
+      return SchemaCodeErr('invalid_enum', { expected: schema.name, received: input }, options)
+    },
+  }
+})
+
 Validator.impl<S.NullableType>(S.NullableType, schema => ({
   validate: (input, options) => {
     if (input === null || input === undefined) {
       return Ok(input)
     }
     return Validator.validate(schema.Item, input, options)
+  },
+  validateAsync: async (input, options) => {
+    if (input === null || input === undefined) {
+      return Ok(input)
+    }
+    return Validator.validateAsync(schema.Item, input, options)
   }
 }))
 
+Validator.impl<S.LazyType>(S.LazyType, (schema) => ({
+  validate: (input, options) => {
+    return Validator.validate(schema.getItem(), input, options)
+  },
+  validateAsync: (input, options) => {
+    return Validator.validateAsync(schema.getItem(), input, options)
+  },
+}))
+
+const decode = (schema: S.TransformType, value: unknown): ValidationResult => {
+  try {
+    return Ok(schema.transformer.decode(value))
+  } catch (error) {
+    return SchemaErr(error instanceof Error ? error.message : `${error}`)
+  }
+}
+
+Validator.impl<S.TransformType>(S.TransformType, (schema) => ({
+  validate: (input, options) => {
+    const result = Validator.validate(schema.Item, input, options)
+
+    if (result.isErr) return result
+
+    return decode(schema, result.value)
+  },
+  validateAsync: async (input, options) => {
+    const result = await Validator.validateAsync(schema.Item, input, options)
+
+    if (result.isErr) return result
+
+    return decode(schema, result.value)
+  },
+}))
+
 Validator.impl<S.ListType>(S.ListType, (schema) => ({
   validate: (input, options) => {
     if (!Array.isArray(input)) {
-      return SchemaErr(`${input} is not a list`)
+      return SchemaCodeErr('invalid_type', { expected: 'list', received: input }, options)
     }
 
     const results = []
+    const errors: ValidationError[] = []
 
     for (let i = 0; i < input.length; i++) {
       const item = input[i]
       const result = Validator.validate(schema.Item, item, options)
 
       if (result.isErr) {
-        return SchemaErr(result.value.message, [i, ...(result.value.path ?? [])])
+        const error = prependPath(result.value, [i])
+        if (options?.abortEarly !== false) return Err(error)
+        errors.push(...getValidationErrors(error))
+        continue
+      }
+
+      results.push(result.value)
+    }
+
+    if (errors.length) {
+      return SchemaErrors(errors)
+    }
+
+    return Ok(results)
+  },
+  validateAsync: async (input, options) => {
+    if (!Array.isArray(input)) {
+      return SchemaCodeErr('invalid_type', { expected: 'list', received: input }, options)
+    }
+
+    const results = []
+    const errors: ValidationError[] = []
+
+    for (let i = 0; i < input.length; i++) {
+      const item = input[i]
+      const result = await Validator.validateAsync(schema.Item, item, options)
+
+      if (result.isErr) {
+        const error = prependPath(result.value, [i])
+        if (options?.abortEarly !== false) return Err(error)
+        errors.push(...getValidationErrors(error))
+        continue
       }
 
       results.push(result.value)
     }
 
+    if (errors.length) {
+      return SchemaErrors(errors)
+    }
+
     return Ok(results)
   },
 }))
 
+// Set and Map are validated as lists of their wire values
+Validator.impl<S.SetType>(S.SetType, (schema) => {
+  const Items = S.List(schema.Item)
+  const getInput = (input: unknown) => (input instanceof Set ? Array.from(input) : input)
+  const toSet = (result: ValidationResult<unknown[]>): ValidationResult<Set<unknown>> => (result.isOk ? Ok(new Set(result.value)) : result)
+
+  return {
+    validate: (input, options) => {
+      return toSet(Validator.validate(Items, getInput(input), options))
+    },
+    validateAsync: async (input, options) => {
+      return toSet(await Validator.validateAsync(Items, getInput(input), options))
+    },
+  }
+})
+
+Validator.impl<S.MapType>(S.MapType, (schema) => {
+  const Entries = S.List(S.Tuple(schema.Key, schema.Item))
+  const getInput = (input: unknown) => (input instanceof Map ? Array.from(input) : input)
+  const toMap = (result: ValidationResult<[unknown, unknown][]>): ValidationResult<Map<unknown, unknown>> => (result.isOk ? Ok(new Map(result.value)) : result)
+
+  return {
+    validate: (input, options) => {
+      return toMap(Validator.validate(Entries, getInput(input), options))
+    },
+    validateAsync: async (input, options) => {
+      return toMap(await Validator.validateAsync(Entries, getInput(input), options))
+    },
+  }
+})
+
+/**
+ * the error of a key not declared in Struct/ObjectType when unknownKeys is 'reject'
+ */
+export const getUnknownKeyError = (key: string, options?: ValidatorOptions): ValidationError => {
+  return SchemaCodeErr('unknown_key', { received: key }, options, [key]).value
+}
+
+/**
+ * get the declared keys of object schema, undefined means it can not be known
+ */
+const getKnownKeys = (Ctor: SchemaCtor): string[] | undefined => {
+  const schema = getInstance(Ctor)
+
+  if (schema instanceof S.StructType) {
+    return Object.keys(schema.descriptors)
+  }
+
+  if (schema instanceof S.ObjectType) {
+    return Object.keys(getSchemaCtorFields((schema as unknown) as S.FieldDescriptors))
+  }
+
+  if (schema instanceof S.IntersectType) {
+    const keys = [] as string[]
+    for (const Item of schema.Items) {
+      const itemKeys = getKnownKeys(Item)
+      if (!itemKeys) return undefined
+      keys.push(...itemKeys)
+    }
+    return keys
+  }
+
+  if (schema instanceof S.LazyType) {
+    return getKnownKeys(schema.getItem())
+  }
+
+  if (
+    schema instanceof S.StrictType ||
+    schema instanceof S.NonStrictType ||
+    schema instanceof S.ReadOnlyType ||
+    schema instanceof S.ReadOnlyDeepType ||
+    schema instanceof S.UnknownKeysType ||
+    schema instanceof PartialType
+  ) {
+    return getKnownKeys(schema.Item)
+  }
+
+  return undefined
+}
+
+const pickKeys = (input: object, keys: string[]) => {
+  const result = {}
+
+  for (const key of keys) {
+    if (Object.prototype.hasOwnProperty.call(input, key)) {
+      // @ts-ignore
+      result[key] = input[key]
+    }
+  }
+
+  return result
+}
+
+/**
+ * reject or pass through the keys of input which are not known,
+ * return the error when it should abort early
+ */
+const checkUnknownKeys = (
+  input: object,
+  isKnownKey: (key: string) => boolean,
+  results: object,
+  errors: ValidationError[],
+  options?: ValidatorOptions
+): Err<ValidationError> | undefined => {
+  const unknownKeys = options?.unknownKeys ?? 'strip'
+
+  if (unknownKeys === 'strip') return
+
+  for (const key of Object.keys(input)) {
+    if (isKnownKey(key)) continue
+
+    if (unknownKeys === 'passthrough') {
+      // @ts-ignore
+      results[key] = input[key]
+      continue
+    }
+
+    const error = getUnknownKeyError(key, options)
+    if (options?.abortEarly !== false) return Err(error)
+    errors.push(error)
+  }
+}
+
+const parseObjectInput = (input: unknown, options?: ValidatorOptions): unknown => {
+  if (typeof input === 'string') {
+    if (options?.strict === false) {
+      try {
+        return JSON.parse(input)
+      } catch (e) {
+        // ignore
+      }
+    }
+  }
+  return input
+}
+
 Validator.impl<S.StructType>(S.StructType, (schema) => {
   const fields = getSchemaCtorFields(schema.descriptors)
+  const isKnownKey = (key: string) => Object.prototype.hasOwnProperty.call(fields, key)
+
+  const getFieldValue = (input: object, key: string) => {
+    const Field = fields[key]
+
+    // @ts-ignore
+    let value = input[key]
+
+    if (value === undefined && Field.default !== undefined) {
+      value = S.getFieldDefault(Field)
+    }
+
+    return value
+  }
 
   return {
     validate: (input, options) => {
-      if (typeof input === 'string') {
-        if (options?.strict === false) {
-          try {
-            input = JSON.parse(input)
-          } catch (e) {
-            // ignore
-          }
-        }
-      }
+      input = parseObjectInput(input, options)
 
       if (typeof input !== 'object' || !input) {
-        return SchemaErr(`${input} is not an object`)
+        return SchemaCodeErr('invalid_type', { expected: 'object', received: input }, options)
       }
 
       const results = {}
+      const errors: ValidationError[] = []
 
       for (const key in fields) {
-        const Field = fields[key]
+        const result = Validator.validate(fields[key][S.Type], getFieldValue(input, key), options)
+
+        if (result.isErr) {
+          const error = prependPath(result.value, [key])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
+        }
 
         // @ts-ignore
-        const value = input[key]
-        const result = Validator.validate(Field[S.Type], value, options)
+        results[key] = result.value
+      }
+
+      const unknownKeyErr = checkUnknownKeys(input, isKnownKey, results, errors, options)
+
+      if (unknownKeyErr) return unknownKeyErr
+
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
+      return Ok(results)
+    },
+    validateAsync: async (input, options) => {
+      input = parseObjectInput(input, options)
+
+      if (typeof input !== 'object' || !input) {
+        return SchemaCodeErr('invalid_type', { expected: 'object', received: input }, options)
+      }
+
+      const results = {}
+      const errors: ValidationError[] = []
+
+      for (const key in fields) {
+        const result = await Validator.validateAsync(fields[key][S.Type], getFieldValue(input, key), options)
 
         if (result.isErr) {
-          return SchemaErr(result.value.message, [key, ...(result.value.path ?? [])])
+          const error = prependPath(result.value, [key])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
         }
 
         // @ts-ignore
         results[key] = result.value
       }
 
+      const unknownKeyErr = checkUnknownKeys(input, isKnownKey, results, errors, options)
+
+      if (unknownKeyErr) return unknownKeyErr
+
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
       return Ok(results)
     },
   }
@@ -311,29 +974,98 @@ Validator.impl(S.ObjectType, (schema) => {
     validate: (input, options) => {
       return Validator.validate(Struct, input, options)
     },
+    validateAsync: (input, options) => {
+      return Validator.validateAsync(Struct, input, options)
+    },
   }
 })
 
 Validator.impl<S.RecordType>(S.RecordType, (schema) => {
+  const isStringKey = S.isStringKey(schema.Key)
+
+  // object keys are always strings, so keys are validated non-strictly
+  const getKeyOptions = (options?: ValidatorOptions): ValidatorOptions => ({
+    ...options,
+    strict: false,
+  })
+
   return {
     validate: (input, options) => {
       if (typeof input !== 'object' || !input) {
-        return SchemaErr(`${input} is not an object`)
+        return SchemaCodeErr('invalid_type', { expected: 'object', received: input }, options)
       }
 
       const results = {}
+      const errors: ValidationError[] = []
 
       for (const [key, value] of Object.entries(input)) {
+        if (!isStringKey) {
+          const keyResult = Validator.validate(schema.Key, key, getKeyOptions(options))
+
+          if (keyResult.isErr) {
+            const error = prependPath(keyResult.value, [key])
+            if (options?.abortEarly !== false) return Err(error)
+            errors.push(...getValidationErrors(error))
+            continue
+          }
+        }
+
         const result = Validator.validate(schema.Item, value, options)
 
         if (result.isErr) {
-          return SchemaErr(result.value.message, [key, ...(result.value.path ?? [])])
+          const error = prependPath(result.value, [key])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
+        }
+
+        // @ts-ignore
+        results[key] = result.value
+      }
+
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
+      return Ok(results)
+    },
+    validateAsync: async (input, options) => {
+      if (typeof input !== 'object' || !input) {
+        return SchemaCodeErr('invalid_type', { expected: 'object', received: input }, options)
+      }
+
+      const results = {}
+      const errors: ValidationError[] = []
+
+      for (const [key, value] of Object.entries(input)) {
+        if (!isStringKey) {
+          const keyResult = await Validator.validateAsync(schema.Key, key, getKeyOptions(options))
+
+          if (keyResult.isErr) {
+            const error = prependPath(keyResult.value, [key])
+            if (options?.abortEarly !== false) return Err(error)
+            errors.push(...getValidationErrors(error))
+            continue
+          }
+        }
+
+        const result = await Validator.validateAsync(schema.Item, value, options)
+
+        if (result.isErr) {
+          const error = prependPath(result.value, [key])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
         }
 
         // @ts-ignore
         results[key] = result.value
       }
 
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
       return Ok(results)
     },
   }
@@ -351,23 +1083,176 @@ Validator.impl<S.UnionType>(S.UnionType, (schema) => {
         messages.push(result.value.message)
       }
 
-      return SchemaErr(`Matched unions failed: \n${messages.join('\n&\n')}`)
+      return SchemaCodeErr('invalid_union', { received: input, reasons: messages }, options)
+    },
+    validateAsync: async (input, options) => {
+      const messages: string[] = []
+
+      for (const Item of schema.Items) {
+        if (Item === S.Never) continue
+        const result = await Validator.validateAsync(Item, input, options)
+        if (result.isOk) return result
+        messages.push(result.value.message)
+      }
+
+      return SchemaCodeErr('invalid_union', { received: input, reasons: messages }, options)
+    },
+  }
+})
+
+Validator.impl<S.TaggedUnionType>(S.TaggedUnionType, (schema) => {
+  const { tag, Items } = schema
+  const tagValues = Object.keys(Items)
+
+  /**
+   * find the item matched by the tag of input
+   */
+  const matchItem = (input: unknown, options?: ValidatorOptions): Result<[string, unknown], ValidationError> => {
+    input = parseObjectInput(input, options)
+
+    if (typeof input !== 'object' || !input) {
+      return SchemaCodeErr('invalid_type', { expected: 'object', received: input }, options)
+    }
+
+    // @ts-ignore
+    const tagValue = input[tag]
+
+    if (typeof tagValue !== 'string' || !Object.prototype.hasOwnProperty.call(Items, tagValue)) {
+      return SchemaCodeErr('invalid_tag', { expected: tagValues, received: tagValue }, options, [tag])
+    }
+
+    let itemInput = input
+
+    // the tag is known by tagged union even if the item does not declare it
+    if (options?.unknownKeys === 'reject') {
+      const knownKeys = getKnownKeys(Items[tagValue])
+
+      if (knownKeys && !knownKeys.includes(tag)) {
+        itemInput = { ...input }
+        // @ts-ignore
+        delete itemInput[tag]
+      }
+    }
+
+    return Ok([tagValue, itemInput])
+  }
+
+  return {
+    validate: (input, options) => {
+      const matched = matchItem(input, options)
+
+      if (matched.isErr) return matched
+
+      const [tagValue, itemInput] = matched.value
+      const result = Validator.validate(Items[tagValue], itemInput, options)
+
+      if (result.isErr) return result
+
+      return Ok({
+        [tag]: tagValue,
+        ...(result.value as object),
+      } as any)
+    },
+    validateAsync: async (input, options) => {
+      const matched = matchItem(input, options)
+
+      if (matched.isErr) return matched
+
+      const [tagValue, itemInput] = matched.value
+      const result = await Validator.validateAsync(Items[tagValue], itemInput, options)
+
+      if (result.isErr) return result
+
+      return Ok({
+        [tag]: tagValue,
+        ...(result.value as object),
+      } as any)
     },
   }
 })
 
 Validator.impl<S.IntersectType>(S.IntersectType, (schema) => {
+  let itemKnownKeys: (string[] | undefined)[] | undefined
+
+  /**
+   * every item only receives the keys it declares,
+   * otherwise it would reject or pass through the keys of other items
+   */
+  const shouldSplitKeys = (input: unknown, options?: ValidatorOptions) => {
+    const unknownKeys = options?.unknownKeys ?? 'strip'
+    const splitKeys = unknownKeys !== 'strip' && typeof input === 'object' && input !== null && !Array.isArray(input)
+
+    if (splitKeys && !itemKnownKeys) {
+      itemKnownKeys = schema.Items.map(getKnownKeys)
+    }
+
+    return splitKeys
+  }
+
+  const getItemInput = (input: unknown, index: number, splitKeys: boolean) => {
+    const knownKeys = splitKeys ? itemKnownKeys![index] : undefined
+    return knownKeys ? pickKeys(input as object, knownKeys) : input
+  }
+
+  const finish = (
+    input: unknown,
+    splitKeys: boolean,
+    results: object,
+    errors: ValidationError[],
+    options?: ValidatorOptions
+  ): ValidationResult<any> => {
+    if (splitKeys && itemKnownKeys!.every(Boolean)) {
+      const knownKeys = ([] as string[]).concat(...(itemKnownKeys as string[][]))
+      const unknownKeyErr = checkUnknownKeys(input as object, (key) => knownKeys.includes(key), results, errors, options)
+
+      if (unknownKeyErr) return unknownKeyErr
+    }
+
+    if (errors.length) {
+      return SchemaErrors(errors)
+    }
+
+    return Ok(results as any)
+  }
+
   return {
     validate: (input, options) => {
       const results = {}
+      const errors: ValidationError[] = []
+      const splitKeys = shouldSplitKeys(input, options)
+
+      for (let i = 0; i < schema.Items.length; i++) {
+        const result = Validator.validate(schema.Items[i], getItemInput(input, i, splitKeys), options)
+
+        if (result.isErr) {
+          if (options?.abortEarly !== false) return result
+          errors.push(...getValidationErrors(result.value))
+          continue
+        }
+
+        Object.assign(results, result.value)
+      }
+
+      return finish(input, splitKeys, results, errors, options)
+    },
+    validateAsync: async (input, options) => {
+      const results = {}
+      const errors: ValidationError[] = []
+      const splitKeys = shouldSplitKeys(input, options)
+
+      for (let i = 0; i < schema.Items.length; i++) {
+        const result = await Validator.validateAsync(schema.Items[i], getItemInput(input, i, splitKeys), options)
+
+        if (result.isErr) {
+          if (options?.abortEarly !== false) return result
+          errors.push(...getValidationErrors(result.value))
+          continue
+        }
 
-      for (const Item of schema.Items) {
-        const result = Validator.validate(Item, input, options)
-        if (result.isErr) return result
         Object.assign(results, result.value)
       }
 
-      return Ok(results as any)
+      return finish(input, splitKeys, results, errors, options)
     },
   }
 })
@@ -424,6 +1309,12 @@ Validator.impl<S.StrictType>(S.StrictType, (schema) => {
         strict: true,
       })
     },
+    validateAsync: (input, options) => {
+      return Validator.validateAsync(schema.Item, input, {
+        ...options,
+        strict: true,
+      })
+    },
   }
 })
 
@@ -435,13 +1326,50 @@ Validator.impl<S.NonStrictType>(S.NonStrictType, (schema) => {
         strict: false,
       })
     },
+    validateAsync: (input, options) => {
+      return Validator.validateAsync(schema.Item, input, {
+        ...options,
+        strict: false,
+      })
+    },
+  }
+})
+
+Validator.impl<S.UnknownKeysType>(S.UnknownKeysType, (schema) => {
+  return {
+    validate: (input, options) => {
+      return Validator.validate(schema.Item, input, {
+        ...options,
+        unknownKeys: schema.unknownKeys,
+      })
+    },
+    validateAsync: (input, options) => {
+      return Validator.validateAsync(schema.Item, input, {
+        ...options,
+        unknownKeys: schema.unknownKeys,
+      })
+    },
   }
 })
 
+const freezeResult = (
+  result: ValidationResult<any>,
+  freezeValue: <T>(value: T) => T,
+  options?: ValidatorOptions,
+): ValidationResult<any> => {
+  if (result.isErr || !options?.freeze) {
+    return result
+  }
+  return Ok(freezeValue(result.value))
+}
+
 Validator.impl<S.ReadOnlyType>(S.ReadOnlyType, (schema) => {
   return {
     validate: (input, options): ValidationResult<any> => {
-      return Validator.validate(schema.Item, input, options)
+      return freezeResult(Validator.validate(schema.Item, input, options), freeze, options)
+    },
+    validateAsync: async (input, options): Promise<ValidationResult<any>> => {
+      return freezeResult(await Validator.validateAsync(schema.Item, input, options), freeze, options)
     },
   }
 })
@@ -449,30 +1377,201 @@ Validator.impl<S.ReadOnlyType>(S.ReadOnlyType, (schema) => {
 Validator.impl<S.ReadOnlyDeepType>(S.ReadOnlyDeepType, (schema) => {
   return {
     validate: (input, options): ValidationResult<any> => {
-      return Validator.validate(schema.Item, input, options)
+      return freezeResult(Validator.validate(schema.Item, input, options), deepFreeze, options)
+    },
+    validateAsync: async (input, options): Promise<ValidationResult<any>> => {
+      return freezeResult(await Validator.validateAsync(schema.Item, input, options), deepFreeze, options)
+    },
+  }
+})
+
+
+const formatPatterns: { [key in NonNullable<S.Constraints['format']>]: RegExp } = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  url: /^[a-z][a-z\d+\-.]*:\/\/[^\s/?#]+[^\s]*$/i,
+}
+
+/**
+ * get the first unsatisfied constraint
+ */
+export const findUnsatisfiedConstraint = (
+  input: unknown,
+  constraints: S.Constraints,
+): keyof S.Constraints | undefined => {
+  const { min, max, multipleOf, minLength, maxLength, pattern, format } = constraints
+
+  if (typeof input === 'number') {
+    if (min !== undefined && input < min) {
+      return 'min'
+    }
+
+    if (max !== undefined && input > max) {
+      return 'max'
+    }
+
+    if (multipleOf !== undefined && !Number.isInteger(input / multipleOf)) {
+      return 'multipleOf'
+    }
+  }
+
+  if (typeof input === 'string' || Array.isArray(input)) {
+    if (minLength !== undefined && input.length < minLength) {
+      return 'minLength'
+    }
+
+    if (maxLength !== undefined && input.length > maxLength) {
+      return 'maxLength'
+    }
+  }
+
+  if (typeof input === 'string') {
+    // the exported RegExp schema shadows the global one in this module
+    if (pattern !== undefined && !new globalThis.RegExp(pattern).test(input)) {
+      return 'pattern'
+    }
+
+    if (format !== undefined && !formatPatterns[format].test(input)) {
+      return 'format'
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * get the error of the first unsatisfied constraint
+ */
+export const getConstraintError = (
+  input: unknown,
+  constraints: S.Constraints,
+  options?: ValidatorOptions,
+): ValidationError | undefined => {
+  const constraint = findUnsatisfiedConstraint(input, constraints)
+
+  if (constraint === undefined) return undefined
+
+  return SchemaCodeErr('constraint', { constraint, expected: constraints[constraint], received: input }, options).value
+}
+
+/**
+ * get the message of the first unsatisfied constraint
+ */
+export const checkConstraints = (
+  input: unknown,
+  constraints: S.Constraints,
+  options?: ValidatorOptions,
+): string | undefined => {
+  return getConstraintError(input, constraints, options)?.message
+}
+
+Validator.impl<S.ConstrainedType>(S.ConstrainedType, (schema) => {
+  return {
+    validate: (input, options): ValidationResult<any> => {
+      const result = Validator.validate(schema.Item, input, options)
+
+      if (result.isErr) return result
+
+      const error = getConstraintError(result.value, schema.constraints, options)
+
+      if (error) {
+        return Err(error)
+      }
+
+      return result
+    },
+    validateAsync: async (input, options): Promise<ValidationResult<any>> => {
+      const result = await Validator.validateAsync(schema.Item, input, options)
+
+      if (result.isErr) return result
+
+      const error = getConstraintError(result.value, schema.constraints, options)
+
+      if (error) {
+        return Err(error)
+      }
+
+      return result
     },
   }
 })
 
+const refine = (
+  schema: S.BrandType,
+  input: unknown,
+  result: ValidationResult<any>,
+  options?: ValidatorOptions,
+): ValidationResult<any> => {
+  if (result.isErr || !schema.refine || schema.refine(result.value)) {
+    return result
+  }
+
+  return SchemaCodeErr('invalid_brand', { expected: schema.brand, received: input }, options)
+}
+
+Validator.impl<S.BrandType>(S.BrandType, (schema) => {
+  return {
+    validate: (input, options) => {
+      return refine(schema, input, Validator.validate(schema.Item, input, options), options)
+    },
+    validateAsync: async (input, options) => {
+      return refine(schema, input, await Validator.validateAsync(schema.Item, input, options), options)
+    },
+  }
+})
 
 Validator.impl<S.TupleType>(S.TupleType, schema => {
   return {
     validate: (input, options): ValidationResult<any> => {
       if (!Array.isArray(input)) {
-        return SchemaErr(`${input} is not an array`)
+        return SchemaCodeErr('invalid_type', { expected: 'array', received: input }, options)
       }
 
       const tuple = [] as unknown[]
+      const errors: ValidationError[] = []
 
       for (let i = 0; i < schema.Items.length; i++) {
         const Item = schema.Items[i]
         const result = Validator.validate(Item, input[i], options)
         if (result.isErr) {
-          return SchemaErr(result.value.message, [...(result.value.path ?? []), i])
+          const error = prependPath(result.value, [i])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
+        }
+        tuple.push(result.value)
+      }
+
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
+      return Ok(tuple)
+    },
+    validateAsync: async (input, options): Promise<ValidationResult<any>> => {
+      if (!Array.isArray(input)) {
+        return SchemaCodeErr('invalid_type', { expected: 'array', received: input }, options)
+      }
+
+      const tuple = [] as unknown[]
+      const errors: ValidationError[] = []
+
+      for (let i = 0; i < schema.Items.length; i++) {
+        const Item = schema.Items[i]
+        const result = await Validator.validateAsync(Item, input[i], options)
+        if (result.isErr) {
+          const error = prependPath(result.value, [i])
+          if (options?.abortEarly !== false) return Err(error)
+          errors.push(...getValidationErrors(error))
+          continue
         }
         tuple.push(result.value)
       }
 
+      if (errors.length) {
+        return SchemaErrors(errors)
+      }
+
       return Ok(tuple)
     }
   }
@@ -482,6 +1581,9 @@ Validator.impl(PartialType, schema => {
   return {
     validate(input, options): ValidationResult<any> {
       return Validator.validate(schema.Item, input, options)
+    },
+    validateAsync(input, options): Promise<ValidationResult<any>> {
+      return Validator.validateAsync(schema.Item, input, options)
     }
   }
 })
@@ -492,6 +1594,12 @@ export const createSchemaValidator = <S extends S.SchemaCtor>(SchemaCtor: S, opt
   }
 }
 
+export const createAsyncSchemaValidator = <S extends S.SchemaCtor>(SchemaCtor: S, options?: ValidatorOptions) => {
+  return (input: unknown) => {
+    return Validator.validateAsync(SchemaCtor, input, options)
+  }
+}
+
 export abstract class ValidatorType<T = unknown> extends S.Schema {
   __type!: T
 
@@ -512,6 +1620,33 @@ Validator.impl<ValidatorType>(ValidatorType, schema => {
   }
 })
 
+/**
+ * validator which needs async checks, like querying database,
+ * the schemas containing it should be validated by Validator.validateAsync
+ */
+export abstract class AsyncValidatorType<T = unknown> extends S.Schema {
+  __type!: T
+
+  abstract validateAsync(input: unknown): Promise<ValidationResult<T>>
+
+  Ok(value: T): ValidationResult<T> {
+    return Ok(value)
+  }
+
+  Err(...args: Parameters<typeof SchemaErr>): ValidationResult<T> {
+    return SchemaErr(...args)
+  }
+}
+
+Validator.impl<AsyncValidatorType>(AsyncValidatorType, schema => {
+  return {
+    validate: () => {
+      throw new Error(`${schema.constructor.name} is async, it should be validated by Validator.validateAsync`)
+    },
+    validateAsync: schema.validateAsync.bind(schema)
+  }
+})
+
 export const RegExp = (regexp: RegExp) => {
   return class RegExp extends ValidatorType<string> {
     validate(input: unknown) {
@@ -5,6 +5,7 @@ import leven from 'leven'
 import dev from '../scripts/dev'
 import build from '../scripts/build'
 import start from '../scripts/start'
+import compat, { CompatOptions } from '../scripts/compat'
 
 import type { GetConfigOptions } from '../config'
 
@@ -41,6 +42,16 @@ program
     return start(options)
   })
 
+program
+  .command('compat <prev> <next>')
+  .description(
+    `check if the apis of next introspection are compatible with the prev one, exit with 1 for breaking changes`,
+  )
+  .option('-o, --output <output>', 'file path to write the report')
+  .action((prev: string, next: string, options: CompatOptions) => {
+    return compat(prev, next, options)
+  })
+
 // output help information on unknown COMMANDS
 program.arguments('<command>').action((cmd) => {
   program.outputHelp()
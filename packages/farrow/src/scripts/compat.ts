@@ -0,0 +1,39 @@
+import fs from 'fs/promises'
+import fetch from 'node-fetch'
+import { FormatResult } from 'farrow-api/dist/toJSON'
+import { checkCompatibility } from 'farrow-api/dist/compatibility'
+
+export type CompatOptions = {
+  /**
+   * file path to write the report
+   */
+  output?: string
+}
+
+/**
+ * read introspection from file path or url
+ */
+const readFormatResult = async (source: string): Promise<FormatResult> => {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source)
+    return (await response.json()) as FormatResult
+  }
+
+  return JSON.parse(await fs.readFile(source, 'utf-8'))
+}
+
+export default async function compat(prev: string, next: string, options: CompatOptions) {
+  const report = checkCompatibility(await readFormatResult(prev), await readFormatResult(next))
+  const content = JSON.stringify(report, null, 2)
+
+  if (options.output) {
+    await fs.writeFile(options.output, content)
+  }
+
+  console.log(content)
+
+  // fail the process for the breaking changes
+  if (report.breaking) {
+    process.exitCode = 1
+  }
+}